@@ -1,10 +1,25 @@
-import { App, Editor, editorEditorField, editorInfoField, editorLivePreviewField, MarkdownPostProcessorContext, MarkdownRenderer, MarkdownView, Plugin, PluginSettingTab, Setting, TFile } from 'obsidian';
-import { Extension, Facet, Prec, RangeSetBuilder, StateField, Transaction } from "@codemirror/state"
-import { Command, Decoration, DecorationSet, EditorView, keymap, WidgetType } from '@codemirror/view'
-import { lookAheadForTableParts, SeparatorLine, tableContentToString, tryParseTableFromParsedParts } from 'src/TableSerde';
-import { TableCell, TableContent, TableRow } from 'src/TableData';
+import { App, Component, Editor, editorEditorField, editorInfoField, editorLivePreviewField, FuzzySuggestModal, MarkdownFileInfo, MarkdownPostProcessorContext, MarkdownRenderChild, MarkdownRenderer, MarkdownView, Modal, normalizePath, Notice, Plugin, PluginSettingTab, Setting, TFile, TFolder } from 'obsidian';
+import { Annotation, EditorState, Extension, Facet, Prec, RangeSetBuilder, StateField, Text, Transaction, TransactionSpec } from "@codemirror/state"
+import { isolateHistory, redo, undo } from "@codemirror/commands"
+import { syntaxTree } from "@codemirror/language"
+import { Diagnostic, linter, lintGutter } from "@codemirror/lint"
+import { Command, Decoration, DecorationSet, EditorView, KeyBinding, keymap, WidgetType } from '@codemirror/view'
+import { lookAheadForTableParts, SerializeOptions, tableContentToString, tryParseTableFromParsedParts } from 'src/TableSerde';
+import { findPipeTable, PipeTableOptions, tableContentToPipeTable, tryParsePipeTable } from 'src/PipeTable';
+import { reformatTables, ReformatOptions } from 'src/TableReformat';
+import { delimitedToTableContent, detectDelimiter, parseDelimited, toDelimited } from 'src/Delimited';
+import { CellPosition, CellRange, expandToSpans, moveHead, rangeBetween, rangeContains, rangeTable, rangeValues } from 'src/CellSelection';
+import { DetectedTable, findTables, isSkippedNode, parseTableMarker, tableMarker, updateTables } from 'src/TableDetection';
+import { sortRowsByColumn } from 'src/TableSort';
+import { formatFormulaResult, FormulaEvaluator, FormulaResult } from 'src/Formula';
+import { diffLines } from 'src/TextDiff';
+import { renderTable, renderTablesInSection } from 'src/ReadingView';
+import { findFramedLines, parseTableSource, tableBorderRanges } from 'src/SourceMode';
+import { BrokenTable, findBrokenTableAt, findBrokenTables, repairTable } from 'src/TableDiagnostics';
+import { CellRenderer, EXPORT_FORMAT_EXTENSIONS, EXPORT_FORMAT_NAMES, EXPORT_FORMATS, ExportFormat, exportTable, htmlDocument } from 'src/TableExport';
+import { ColumnAlignment, isColumnAlignment, TableCell, TableContent, TableRow } from 'src/TableData';
 import { ObsidianEditorAdapter } from 'src/ObsidianEditorAdapter';
-import { EDITOR_TABLE_ADD_COLUMN_BUTTON_CLASS, EDITOR_TABLE_ADD_ROW_BUTTON_CLASS, EDITOR_TABLE_BUTTON_CLASS, EDITOR_TABLE_CELL_CLASS, EDITOR_TABLE_CLASS, EDITOR_TABLE_CONTAINER_CLASS, EDITOR_TABLE_ROW_CLASS, PLUS_SVG } from 'src/consts';
+import { EDITOR_TABLE_ADD_COLUMN_BUTTON_CLASS, EDITOR_TABLE_ADD_ROW_BUTTON_CLASS, EDITOR_TABLE_BUTTON_CLASS, EDITOR_TABLE_CELL_CLASS, EDITOR_TABLE_CELL_PREVIEW_CLASS, EDITOR_TABLE_CLASS, EDITOR_TABLE_CONTAINER_CLASS, EDITOR_TABLE_COVERED_CELL_CLASS, EDITOR_TABLE_FORMULA_CLASS, EDITOR_TABLE_FORMULA_ERROR_CLASS, EDITOR_TABLE_ROW_CLASS, EDITOR_TABLE_SELECTED_CELL_CLASS, PLUS_SVG } from 'src/consts';
 import { BiMap } from 'src/BiMap';
 
 // Remember to rename these classes and interfaces!
@@ -14,11 +29,15 @@ function trimLines(str: string): string {
 }
 
 interface GridTablePluginSettings {
-	mySetting: string;
+	// Cell lines wider than this are wrapped when writing tables. 0 for no limit.
+	maxColumnWidth: number;
+	// Align the borders of tables written by hand once the cursor leaves them.
+	alignTablesOnLeave: boolean;
 }
 
 const DEFAULT_SETTINGS: GridTablePluginSettings = {
-	mySetting: 'default'
+	maxColumnWidth: 0,
+	alignTablesOnLeave: true,
 }
 
 function* enumerate<T>(iter: Iterable<T>): Generator<[number, T]> {
@@ -29,6 +48,15 @@ function* enumerate<T>(iter: Iterable<T>): Generator<[number, T]> {
 	}
 }
 
+function serializeOptions(): SerializeOptions {
+	const maxColumnWidth = globalPlugin?.settings.maxColumnWidth;
+	return { maxColumnWidth: maxColumnWidth ? maxColumnWidth : null };
+}
+
+function serializeTable(table: TableContent): string {
+	return tableContentToString(table, serializeOptions());
+}
+
 function moveCursorToEnd(view: EditorView) {
 	view.dispatch({
 		selection: {
@@ -47,43 +75,57 @@ function moveCursorToBeginning(view: EditorView) {
 	})
 }
 
-function triggerCodeMirrorKey(view: EditorView, keyString: string) {
-	const bindings = view.state.facet(keymap).flat();
-	for (const binding of bindings) {
-		if (binding.key == keyString) {
-			if (binding.run && binding.run(view)) {
-				return true;
-			}
-		}
+// Cells don't have their own undo history, the one of the document they're in covers them.
+function genHistoryForwarder(forwardTo: EditorView) {
+	return Prec.highest(
+		keymap.of([
+			{ key: "Mod-z", run: () => undo(forwardTo), preventDefault: true },
+			{ key: "Mod-y", run: () => redo(forwardTo), preventDefault: true },
+			{ key: "Mod-Shift-z", run: () => redo(forwardTo), preventDefault: true },
+		])
+	)
+}
+
+/**
+ * Where the text which changed between the two versions ends in the new one, which is where
+ * the cursor would be after typing or deleting it.
+ */
+function changeEnd(before: string, after: string): number {
+	let prefix = 0;
+	while (prefix < before.length && prefix < after.length && before[prefix] == after[prefix]) {
+		prefix++;
+	}
+	let suffix = 0;
+	while (suffix < before.length - prefix && suffix < after.length - prefix
+		&& before[before.length - 1 - suffix] == after[after.length - 1 - suffix]) {
+		suffix++;
 	}
 
-	return false;
+	return after.length - suffix;
 }
 
-function genKeyForwarder(forwardTo: EditorView, keys: string[]) {
-	return Prec.highest(
-		keymap.of(keys.map((key) => {
-			return {
-				key,
-				run() {
-					return triggerCodeMirrorKey(forwardTo, key)
-				},
-				preventDefault: true,
-			}
-		}))
-	)
+// What a live cell editor belongs to, to find editors which didn't get freed.
+interface EditorOwner {
+	widgetUid: number
+	tableElement: Element
 }
 
 class ObsidianEditorStorage {
 	static uids: number
+	// Detached editors kept around for reuse, beyond this they are unloaded.
+	static readonly MAX_POOLED_EDITORS = 32;
 
 	editors: BiMap<Element, ObsidianEditorAdapter>
+	owners: Map<ObsidianEditorAdapter, EditorOwner>
+	pool: ObsidianEditorAdapter[]
 	plugin: Plugin
 	uid: number
 
 	constructor(plugin: Plugin) {
 		this.plugin = plugin;
 		this.editors = new BiMap();
+		this.owners = new Map();
+		this.pool = [];
 
 		if (ObsidianEditorStorage.uids == undefined) {
 			ObsidianEditorStorage.uids = 0;
@@ -92,12 +134,17 @@ class ObsidianEditorStorage {
 		this.uid = ObsidianEditorStorage.uids++;
 	}
 
-	newEditor(extensions: () => Extension[], file: TFile, parentEditor: EditorView | null = null): [Element, ObsidianEditorAdapter] {
-		const editor = new ObsidianEditorAdapter(this.plugin);
+	newEditor(extensions: () => Extension[], file: TFile, owner: EditorOwner, parentEditor: EditorView | null = null, containingElement: Element = document.createElement("div")): [Element, ObsidianEditorAdapter] {
+		// Pooled editors stay mounted for the file they were made for.
+		const pooled = this.pool.findIndex((editor) => editor.file == file);
+		const editor = pooled >= 0 ? this.pool.splice(pooled, 1)[0] : new ObsidianEditorAdapter(this.plugin);
 		editor.setExtraExtensionProvider(extensions)
 
-		const containingElement = document.createElement("div");
-		editor.mount(containingElement, file)
+		if (pooled >= 0) {
+			editor.attach(containingElement);
+		} else {
+			editor.mount(containingElement, file)
+		}
 
 		if (!editor.activeEditor) {
 			throw new Error("Just mounted the editor!");
@@ -105,6 +152,7 @@ class ObsidianEditorStorage {
 		editor.activeEditor.parentEditor = parentEditor;
 
 		this.editors.set(containingElement, editor)
+		this.owners.set(editor, owner);
 
 		return [containingElement, editor];
 	}
@@ -118,8 +166,77 @@ class ObsidianEditorStorage {
 	}
 
 	delEditor(editor: ObsidianEditorAdapter): void {
-		editor.unmount();
 		this.editors.deleteByValue(editor);
+		this.owners.delete(editor);
+		if (this.pool.includes(editor)) return;
+
+		if (editor.activeEditor && this.pool.length < ObsidianEditorStorage.MAX_POOLED_EDITORS) {
+			editor.detach();
+			this.pool.push(editor);
+		} else {
+			editor.unmount();
+		}
+	}
+
+	/**
+	 * Unloads the pooled editors.
+	 */
+	clearPool() {
+		for (const editor of this.pool) {
+			editor.unmount();
+		}
+		this.pool = [];
+	}
+
+	/**
+	 * Frees the editors still belonging to the table, returning how many there were.
+	 */
+	delEditorsOfTable(tableElement: Element): number {
+		const editors = Array.from(this.owners.entries())
+			.filter(([, owner]) => owner.tableElement == tableElement)
+			.map(([editor]) => editor);
+		for (const editor of editors) {
+			this.delEditor(editor);
+		}
+
+		return editors.length;
+	}
+
+	liveEditorCounts(): Map<number, number> {
+		const counts = new Map<number, number>();
+		for (const owner of this.owners.values()) {
+			counts.set(owner.widgetUid, (counts.get(owner.widgetUid) ?? 0) + 1);
+		}
+
+		return counts;
+	}
+
+	/**
+	 * Warns about (and frees) editors whose table isn't in the document anymore.
+	 * Tables free their editors when they're destroyed, so these have leaked.
+	 */
+	checkForLeaks() {
+		const leakedTables = new Set<Element>();
+		for (const owner of this.owners.values()) {
+			if (!owner.tableElement.isConnected) {
+				leakedTables.add(owner.tableElement);
+			}
+		}
+
+		for (const tableElement of leakedTables) {
+			const widgetUid = TableAttributes.readWidgetUid(tableElement);
+			const count = this.delEditorsOfTable(tableElement);
+			console.warn(`${this}: ${count} cell editor(s) outlived the table of widget ${widgetUid}`);
+		}
+	}
+
+	describe(): string {
+		const lines = [`${this.owners.size} live cell editor(s), ${this.pool.length} pooled`];
+		for (const [widgetUid, count] of this.liveEditorCounts()) {
+			lines.push(`Widget ${widgetUid}: ${count} live`);
+		}
+
+		return lines.join("\n");
 	}
 
 	toString() {
@@ -140,6 +257,8 @@ class TableAttributes {
 	static readonly ATTRIBUTE_SOURCE_LENGTH = "source-length";
 	static readonly ATTRIBUTE_COLS = "cols";
 	static readonly ATTRIBUTE_ROWS = "rows";
+	static readonly ATTRIBUTE_WIDGET_UID = "widget-uid";
+	static readonly ATTRIBUTE_LINE_PREFIX = "line-prefix";
 
 	sourceLength: number
 	cols: number
@@ -164,12 +283,32 @@ class TableAttributes {
 			parseInt(getAttrOrErr(el, TableAttributes.ATTRIBUTE_ROWS)),
 		)
 	}
+
+	// The widget which created the table element.
+	static writeWidgetUid(el: Element, uid: number) {
+		el.setAttribute(TableAttributes.ATTRIBUTE_WIDGET_UID, uid.toString());
+	}
+
+	static readWidgetUid(el: Element): number {
+		return parseInt(getAttrOrErr(el, TableAttributes.ATTRIBUTE_WIDGET_UID));
+	}
+
+	// Written back in front of every line, so the table stays inside its blockquote or list item.
+	static writeLinePrefix(el: Element, prefix: string) {
+		el.setAttribute(TableAttributes.ATTRIBUTE_LINE_PREFIX, prefix);
+	}
+
+	static readLinePrefix(el: Element): string {
+		return el.getAttribute(TableAttributes.ATTRIBUTE_LINE_PREFIX) ?? "";
+	}
 }
 
 class TableCellAttributes {
 	static readonly ATTRIBUTE_COL = "col";
 	static readonly ATTRIBUTE_ROW = "row";
 	static readonly ATTRIBUTE_TAB_INDEX = "tab-index";
+	static readonly ATTRIBUTE_ALIGNMENT = "alignment";
+	static readonly ATTRIBUTE_SOURCE_WIDTH = "source-width";
 
 	readonly col: number
 	readonly row: number
@@ -194,6 +333,39 @@ class TableCellAttributes {
 			parseInt(getAttrOrErr(el, TableCellAttributes.ATTRIBUTE_TAB_INDEX)),
 		)
 	}
+
+	// Alignment is kept separately since it travels with the cell when columns are moved,
+	// and newly constructed cells don't have one until the next sync.
+	static writeAlignment(el: Element, alignment: ColumnAlignment): void {
+		el.setAttribute(TableCellAttributes.ATTRIBUTE_ALIGNMENT, alignment);
+	}
+
+	static readAlignment(el: Element): ColumnAlignment | null {
+		const alignment = el.getAttr(TableCellAttributes.ATTRIBUTE_ALIGNMENT);
+		if (alignment == null || !isColumnAlignment(alignment)) {
+			return null;
+		}
+
+		return alignment;
+	}
+
+	// Same goes for the width the column had in the source.
+	static writeSourceWidth(el: Element, width: number | null): void {
+		if (width == null) {
+			el.removeAttribute(TableCellAttributes.ATTRIBUTE_SOURCE_WIDTH);
+		} else {
+			el.setAttribute(TableCellAttributes.ATTRIBUTE_SOURCE_WIDTH, width.toString());
+		}
+	}
+
+	static readSourceWidth(el: Element): number | null {
+		const width = el.getAttr(TableCellAttributes.ATTRIBUTE_SOURCE_WIDTH);
+		if (width == null) {
+			return null;
+		}
+
+		return parseInt(width);
+	}
 }
 
 
@@ -204,9 +376,63 @@ function suggestWidth(content: string, sourcePath: string, container: HTMLElemen
 
 const nestedEditorsFacet = Facet.define<ObsidianEditorStorage>();
 
+interface GridTableEdit {
+	// Whether the edit was made in the widget's cells, so its DOM already shows the new content.
+	fromDom: boolean
+	// For typing in a cell, the user event of the cell's transaction. Other edits (like adding
+	// a row) are undone on their own, while typing is grouped like it is anywhere else.
+	userEvent: string | null
+	// Typing in a cell other than the one edited last starts a new undo step.
+	newCell: boolean
+}
+
+// Marks the transactions made by the table widgets.
+const gridTableEdit = Annotation.define<GridTableEdit>();
+
+// What caused a table to change, see GridTableWidget.updateDOM.
+type TableEditOrigin = "document" | "cells" | "history";
+
+// The editor container of the cell which was typed in last, per document.
+const lastEditedCell = new WeakMap<EditorView, Element>();
+
+interface TableSelection {
+	// Where the selection was started and where it was extended to.
+	anchor: CellPosition
+	head: CellPosition
+}
+
+// The rectangle of cells selected in each table element, if any.
+const tableSelections = new WeakMap<Element, TableSelection>();
+
+// Copied cells are put on the clipboard as a grid table too (next to tab-separated text),
+// so pasting them keeps merged cells and formatting.
+const GRID_TABLE_CLIPBOARD_TYPE = "text/x-grid-table";
+
+// How long a cell keeps its editor after losing focus.
+const CELL_EDITOR_IDLE_MS = 2000;
+const EDITOR_LEAK_CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Cells only get an editor while they're being edited, otherwise they show their content
+ * rendered as Markdown. Mounting hundreds of editors at once freezes large tables.
+ */
+interface LazyCell {
+	// Only up to date while no editor is mounted.
+	content: string
+	mount: () => ObsidianEditorAdapter
+	unmountTimer: number | null
+	// Shown instead of the content while no editor is mounted.
+	formulaResult: FormulaResult | null
+	// Owns what rendering the preview's Markdown loaded (like embeds), until the preview goes away.
+	preview: Component | null
+}
+
+// Keyed by the editor container inside each cell.
+const lazyCells = new WeakMap<Element, LazyCell>();
+
 class TableCommands {
 	static addRowBelow(tdEl: HTMLTableCellElement, editor: EditorView, file: TFile) {
-		const tableElement = tdEl.parentElement?.parentElement as HTMLTableElement;
+		const tableElement = tdEl.closest("table");
 		if (!tableElement) throw new Error();
 
 		const cellAttributes = TableCellAttributes.read(tdEl);
@@ -214,7 +440,7 @@ class TableCommands {
 	}
 
 	static addRowAbove(tdEl: HTMLTableCellElement, editor: EditorView, file: TFile) {
-		const tableElement = tdEl.parentElement?.parentElement as HTMLTableElement;
+		const tableElement = tdEl.closest("table");
 		if (!tableElement) throw new Error();
 
 		const cellAttributes = TableCellAttributes.read(tdEl);
@@ -222,7 +448,7 @@ class TableCommands {
 	}
 
 	static addColumnAfter(tdEl: HTMLTableCellElement, editor: EditorView, file: TFile) {
-		const tableElement = tdEl.parentElement?.parentElement as HTMLTableElement;
+		const tableElement = tdEl.closest("table");
 		if (!tableElement) throw new Error();
 
 		const cellAttributes = TableCellAttributes.read(tdEl);
@@ -230,7 +456,7 @@ class TableCommands {
 	}
 
 	static addColumnBefore(tdEl: HTMLTableCellElement, editor: EditorView, file: TFile) {
-		const tableElement = tdEl.parentElement?.parentElement as HTMLTableElement;
+		const tableElement = tdEl.closest("table");
 		if (!tableElement) throw new Error();
 
 		const cellAttributes = TableCellAttributes.read(tdEl);
@@ -238,23 +464,35 @@ class TableCommands {
 	}
 
 	static deleteRowAt(tdEl: HTMLTableCellElement, editor: EditorView) {
-		const tableElement = tdEl.parentElement?.parentElement as HTMLTableElement;
+		const tableElement = tdEl.closest("table");
 		if (!tableElement) throw new Error();
 
+		const range = GridTableWidget.getSelectedRange(tableElement);
+		if (range) {
+			GridTableWidget.deleteRows(editor, tableElement, range.top, range.bottom);
+			return;
+		}
+
 		const cellAttributes = TableCellAttributes.read(tdEl);
 		GridTableWidget.deleteRow(editor, tableElement, cellAttributes.row);
 	}
 
 	static deleteColumnAt(tdEl: HTMLTableCellElement, editor: EditorView) {
-		const tableElement = tdEl.parentElement?.parentElement as HTMLTableElement;
+		const tableElement = tdEl.closest("table");
 		if (!tableElement) throw new Error();
 
+		const range = GridTableWidget.getSelectedRange(tableElement);
+		if (range) {
+			GridTableWidget.deleteColumns(editor, tableElement, range.left, range.right);
+			return;
+		}
+
 		const cellAttributes = TableCellAttributes.read(tdEl);
 		GridTableWidget.deleteColumn(editor, tableElement, cellAttributes.col);
 	}
 
 	static shiftRowUp(tdEl: HTMLTableCellElement, editor: EditorView) {
-		const tableElement = tdEl.parentElement?.parentElement as HTMLTableElement;
+		const tableElement = tdEl.closest("table");
 		if (!tableElement) throw new Error();
 
 		const cellAttributes = TableCellAttributes.read(tdEl);
@@ -262,7 +500,7 @@ class TableCommands {
 	}
 
 	static shiftRowDown(tdEl: HTMLTableCellElement, editor: EditorView) {
-		const tableElement = tdEl.parentElement?.parentElement as HTMLTableElement;
+		const tableElement = tdEl.closest("table");
 		if (!tableElement) throw new Error();
 
 		const cellAttributes = TableCellAttributes.read(tdEl);
@@ -270,7 +508,7 @@ class TableCommands {
 	}
 
 	static shiftColumnRight(tdEl: HTMLTableCellElement, editor: EditorView) {
-		const tableElement = tdEl.parentElement?.parentElement as HTMLTableElement;
+		const tableElement = tdEl.closest("table");
 		if (!tableElement) throw new Error();
 
 		const cellAttributes = TableCellAttributes.read(tdEl);
@@ -278,7 +516,7 @@ class TableCommands {
 	}
 
 	static shiftColumnLeft(tdEl: HTMLTableCellElement, editor: EditorView) {
-		const tableElement = tdEl.parentElement?.parentElement as HTMLTableElement;
+		const tableElement = tdEl.closest("table");
 		if (!tableElement) throw new Error();
 
 		const cellAttributes = TableCellAttributes.read(tdEl);
@@ -288,23 +526,126 @@ class TableCommands {
 	static deleteTable(tableEl: HTMLTableElement, editor: EditorView) {
 		GridTableWidget.deleteTable(editor, tableEl);
 	}
+
+	static mergeCellRight(tdEl: HTMLTableCellElement, editor: EditorView) {
+		const tableElement = tdEl.closest("table");
+		if (!tableElement) throw new Error();
+
+		const cellAttributes = TableCellAttributes.read(tdEl);
+		GridTableWidget.mergeCells(editor, tableElement, cellAttributes.row, cellAttributes.col, "right");
+	}
+
+	static mergeCellDown(tdEl: HTMLTableCellElement, editor: EditorView) {
+		const tableElement = tdEl.closest("table");
+		if (!tableElement) throw new Error();
+
+		const cellAttributes = TableCellAttributes.read(tdEl);
+		GridTableWidget.mergeCells(editor, tableElement, cellAttributes.row, cellAttributes.col, "down");
+	}
+
+	static splitCell(tdEl: HTMLTableCellElement, editor: EditorView) {
+		const tableElement = tdEl.closest("table");
+		if (!tableElement) throw new Error();
+
+		const cellAttributes = TableCellAttributes.read(tdEl);
+		GridTableWidget.splitCell(editor, tableElement, cellAttributes.row, cellAttributes.col);
+	}
+
+	static alignColumn(tdEl: HTMLTableCellElement, editor: EditorView, alignment: ColumnAlignment) {
+		const tableElement = tdEl.closest("table");
+		if (!tableElement) throw new Error();
+
+		const cellAttributes = TableCellAttributes.read(tdEl);
+		GridTableWidget.setColumnAlignment(editor, tableElement, cellAttributes.col, alignment);
+	}
+
+	static normalizeWidths(tdEl: HTMLTableCellElement, editor: EditorView) {
+		const tableElement = tdEl.closest("table");
+		if (!tableElement) throw new Error();
+
+		GridTableWidget.normalizeWidths(editor, tableElement);
+	}
+
+	static sortByColumn(tdEl: HTMLTableCellElement, editor: EditorView, descending: boolean) {
+		const tableElement = tdEl.closest("table");
+		if (!tableElement) throw new Error();
+
+		const cellAttributes = TableCellAttributes.read(tdEl);
+		GridTableWidget.sortByColumn(editor, tableElement, cellAttributes.col, descending);
+	}
+
+	static transpose(tdEl: HTMLTableCellElement, editor: EditorView) {
+		const tableElement = tdEl.closest("table");
+		if (!tableElement) throw new Error();
+
+		const cellAttributes = TableCellAttributes.read(tdEl);
+		GridTableWidget.transpose(editor, tableElement, cellAttributes.row, cellAttributes.col);
+	}
+
+	/**
+	 * Pastes into the selected cells if there are any, or starting at the given cell otherwise.
+	 */
+	static pasteIntoCells(tdEl: HTMLTableCellElement, editor: EditorView, values: string[][]) {
+		const tableElement = tdEl.closest("table");
+		if (!tableElement) throw new Error();
+
+		const range = GridTableWidget.getSelectedRange(tableElement);
+		if (range) {
+			// Like in spreadsheets, a single value fills the whole selection.
+			if (values.length == 1 && values[0].length == 1) {
+				values = Array.from({ length: range.bottom - range.top + 1 }, () => Array(range.right - range.left + 1).fill(values[0][0]));
+			}
+			GridTableWidget.pasteIntoCells(editor, tableElement, range.top, range.left, values);
+			return;
+		}
+
+		const cellAttributes = TableCellAttributes.read(tdEl);
+		GridTableWidget.pasteIntoCells(editor, tableElement, cellAttributes.row, cellAttributes.col, values);
+	}
+
+	static copyTableAs(tdEl: HTMLTableCellElement, editor: EditorView, file: TFile, format: ExportFormat) {
+		const tableElement = tdEl.closest("table");
+		if (!tableElement) throw new Error();
+
+		GridTableWidget.copyTableAs(editor, tableElement, file, format);
+	}
+
+	static exportTableToFile(tdEl: HTMLTableCellElement, editor: EditorView, file: TFile) {
+		const tableElement = tdEl.closest("table");
+		if (!tableElement || !globalPlugin) throw new Error();
+
+		new ExportFormatModal(globalPlugin.app, (format) => {
+			GridTableWidget.exportTableToFile(editor, tableElement, file, format);
+		}).open();
+	}
+
+	static convertToPipeTable(tdEl: HTMLTableCellElement, editor: EditorView, options: PipeTableOptions = {}) {
+		const tableElement = tdEl.closest("table");
+		if (!tableElement) throw new Error();
+
+		GridTableWidget.convertToPipeTable(editor, tableElement, options);
+	}
 }
 
 export class GridTableWidget extends WidgetType {
 	static uids: number
 
 	readonly contentToWriteToState: TableContent
+	readonly source: string
 	readonly originalLength: number
+	readonly origin: TableEditOrigin
 
 	file: TFile
 	uid: number
 	editorStorage: ObsidianEditorStorage
 
-	constructor(contentToWriteToState: TableContent, file: TFile, originalLength: number) {
+	constructor(contentToWriteToState: TableContent, file: TFile, source: string, origin: TableEditOrigin = "document") {
 		super()
 		this.contentToWriteToState = contentToWriteToState;
 		this.file = file;
-		this.originalLength = originalLength;
+		this.source = source;
+		this.originalLength = source.length;
+		this.origin = origin;
 
 		if (GridTableWidget.uids == undefined) {
 			GridTableWidget.uids = 0;
@@ -313,6 +654,10 @@ export class GridTableWidget extends WidgetType {
 		this.uid = GridTableWidget.uids++;
 	}
 
+	eq(other: GridTableWidget): boolean {
+		return other.source == this.source && other.file == this.file;
+	}
+
 	loadEditors(view: EditorView) {
 		const [editors] = view.state.facet(nestedEditorsFacet);
 
@@ -326,7 +671,15 @@ export class GridTableWidget extends WidgetType {
 		if (tableEl == null) return false;
 		if (!globalPlugin) return false;
 
-		GridTableWidget.syncDomTableWithContent(view, tableEl, this.contentToWriteToState, this.originalLength, this.file, globalPlugin);
+		// After undo/redo, the cursor goes back into the cell which changed.
+		const contentsBefore = this.origin == "history" ? GridTableWidget.getCellContents(view, tableEl) : null;
+
+		// Tables edited through their cells already show the new content.
+		GridTableWidget.syncDomTableWithContent(view, tableEl, this.contentToWriteToState, this.originalLength, this.file, globalPlugin, this.origin != "cells");
+
+		if (contentsBefore) {
+			GridTableWidget.focusChangedCell(view, tableEl, contentsBefore);
+		}
 
 		return true;
 	}
@@ -339,6 +692,14 @@ export class GridTableWidget extends WidgetType {
 		return TableCellAttributes.read(editor.parentElement.parentElement);
 	}
 
+	static getCellOfEditor(editor: ObsidianEditorAdapter): HTMLTableCellElement {
+		if (!editor.parentElement.parentElement) {
+			throw new Error();
+		}
+
+		return editor.parentElement.parentElement as HTMLTableCellElement;
+	}
+
 	static getIndexOfEditor(editor: ObsidianEditorAdapter): number {
 		return this.getAttsOfEditor(editor).tabIndex;
 	}
@@ -359,89 +720,253 @@ export class GridTableWidget extends WidgetType {
 	}
 
 	static deleteRow(view: EditorView, tableElement: HTMLTableElement, rowIndex: number) {
-		const tr = tableElement.querySelector(`:scope > tr:nth-child(${rowIndex + 1})`)
-		if (!tr) return;
+		this.deleteRows(view, tableElement, rowIndex, rowIndex);
+	}
+
+	/**
+	 * Deletes the rows from first to last (inclusive) as a single edit.
+	 */
+	static deleteRows(view: EditorView, tableElement: HTMLTableElement, first: number, last: number) {
+		const trs = this.getRowElements(tableElement).slice(first, last + 1);
+		if (trs.length == 0) return;
 
 		const [editorStorage] = view.state.facet(nestedEditorsFacet);
 		const tableAttrs = TableAttributes.read(tableElement);
 
-		if (tableAttrs.rows == 1) {
+		if (trs.length == tableAttrs.rows) {
 			this.deleteTable(view, tableElement);
 			return;
 		}
+		this.setSelection(tableElement, null);
+		const content = this.tableContentFromDOM(view, tableElement).deleteRows(first, last);
 
 		let currentFocus: TableCellAttributes | null = null;
 
-		for (const td of Array.from(tr.querySelectorAll(":scope > td"))) {
-			const editor = editorStorage.getEditorByElement(td.children[0]);
+		for (const tr of trs) {
+			for (const td of this.getCellElements(tr)) {
+				const editor = editorStorage.getEditorByElement(td.children[0]);
 
-			if (!editor?.activeEditor) {
-				continue;
-			}
+				if (!editor?.activeEditor) {
+					continue;
+				}
 
-			if (editor.activeEditor.editorEl.contains(document.activeElement)) {
-				currentFocus = TableCellAttributes.read(td)
-			}
+				if (editor.activeEditor.editorEl.contains(document.activeElement)) {
+					currentFocus = TableCellAttributes.read(td)
+				}
 
-			if (editor) {
-				editorStorage.delEditor(editor);
+				if (editor) {
+					editorStorage.delEditor(editor);
+				}
 			}
 		}
 
+		this.writeOverTable(view, tableElement, serializeTable(content));
+
 		if (currentFocus) {
 			const newFocusCol = currentFocus.col;
-			let newFocusRow;
+			let newFocusRow: number;
 
 			// Focus should go to the next row unless there isn't any
-			// (next row is 'sliding into' where deleted row was).
-			if (currentFocus.row == tableAttrs.rows - 1) {
-				newFocusRow = currentFocus.row - 1;
+			// (next row is 'sliding into' where deleted rows were).
+			if (last == tableAttrs.rows - 1) {
+				newFocusRow = first - 1;
 			} else {
-				newFocusRow = currentFocus.row + 1;
+				newFocusRow = first;
 			}
 
-			const newFocus = this.getCellAt(tableElement, newFocusCol, newFocusRow)
-			if (newFocus) {
-				editorStorage.getEditorByElement(newFocus?.children[0])?.focus();
-			}
+			// The document is in the middle of updating, so focusing has to wait.
+			window.setTimeout(() => {
+				if (!tableElement.isConnected) return;
+
+				const newFocus = this.getCellAt(tableElement, newFocusCol, newFocusRow)
+				if (newFocus) {
+					this.focusCell(view, newFocus);
+				}
+			});
 		}
+	}
 
-		tr.remove();
+	static getRowElements(tableElement: Element): HTMLTableRowElement[] {
+		// The header row (if any) lives in a <thead>, the rest are direct children of the table.
+		return Array.from(tableElement.querySelectorAll(":scope > thead > tr, :scope > tr"));
+	}
 
-		this.flushDomToFile(view, tableElement)
+	static getCellElements(rowElement: Element): HTMLTableCellElement[] {
+		return Array.from(rowElement.querySelectorAll(":scope > td, :scope > th"));
+	}
+
+	static findCell(tableElement: Element, attributeSelector: string): HTMLTableCellElement | null {
+		return tableElement.querySelector(`:scope > tr > ${attributeSelector}, :scope > thead > tr > ${attributeSelector}`);
 	}
 
 	static getCellAt(tableElement: HTMLTableElement, col: number, row: number) {
-		return tableElement.querySelector(`:scope > tr > td[col="${col}"][row="${row}"]`)
+		return this.findCell(tableElement, `[col="${col}"][row="${row}"]`);
+	}
+
+	static getCellGrid(tableElement: Element): HTMLTableCellElement[][] {
+		return this.getRowElements(tableElement).map((tr) => this.getCellElements(tr));
+	}
+
+	/**
+	 * Cells hidden under a merged cell's span stay in the DOM (hidden), so that the table
+	 * is always a full grid and row/column operations can keep working by index.
+	 */
+	static isCoveredCell(cellEl: Element): boolean {
+		return cellEl.classList.contains(EDITOR_TABLE_COVERED_CELL_CLASS);
+	}
+
+	static setCellCovered(cellEl: HTMLTableCellElement, covered: boolean) {
+		cellEl.classList.toggle(EDITOR_TABLE_COVERED_CELL_CLASS, covered);
+		if (covered) {
+			cellEl.rowSpan = 1;
+			cellEl.colSpan = 1;
+		}
+	}
+
+	static findSpanOrigin(grid: HTMLTableCellElement[][], row: number, col: number): HTMLTableCellElement | null {
+		for (let r = row; r >= 0; r--) {
+			for (let c = col; c >= 0; c--) {
+				const cell = grid[r]?.[c];
+				if (cell && !this.isCoveredCell(cell) && r + cell.rowSpan > row && c + cell.colSpan > col) {
+					return cell;
+				}
+			}
+		}
+
+		return null;
+	}
+
+	static spanOverInsertedRow(tableElement: HTMLTableElement, rowIndex: number) {
+		const grid = this.getCellGrid(tableElement);
+		for (let r = 0; r < rowIndex; r++) {
+			for (const [c, cell] of enumerate(grid[r])) {
+				if (this.isCoveredCell(cell) || r + cell.rowSpan <= rowIndex) continue;
+
+				cell.rowSpan++;
+				for (let i = c; i < c + cell.colSpan; i++) {
+					this.setCellCovered(grid[rowIndex][i], true);
+				}
+			}
+		}
+	}
+
+	static spanOverInsertedColumn(tableElement: HTMLTableElement, colIndex: number) {
+		const grid = this.getCellGrid(tableElement);
+		for (const [r, cells] of enumerate(grid)) {
+			for (let c = 0; c < colIndex; c++) {
+				const cell = cells[c];
+				if (this.isCoveredCell(cell) || c + cell.colSpan <= colIndex) continue;
+
+				cell.colSpan++;
+				for (let i = r; i < r + cell.rowSpan; i++) {
+					this.setCellCovered(grid[i][colIndex], true);
+				}
+			}
+		}
+	}
+
+	static shrinkSpansOverDeletedColumn(tableElement: HTMLTableElement, colIndex: number) {
+		const grid = this.getCellGrid(tableElement);
+		for (const cells of grid) {
+			for (const [c, cell] of enumerate(cells)) {
+				if (this.isCoveredCell(cell)) continue;
+
+				if (c < colIndex && c + cell.colSpan > colIndex) {
+					cell.colSpan--;
+				} else if (c == colIndex && cell.colSpan > 1) {
+					// The cell to the right takes over the rest of the span.
+					const right = cells[c + 1];
+					this.setCellCovered(right, false);
+					right.colSpan = cell.colSpan - 1;
+					right.rowSpan = cell.rowSpan;
+				}
+			}
+		}
+	}
+
+	/**
+	 * Whether any of the given rows takes part in a cell spanning multiple rows.
+	 */
+	static rowsTouchRowSpans(tableElement: HTMLTableElement, rowIndices: number[]): boolean {
+		const grid = this.getCellGrid(tableElement);
+		return rowIndices.some((r) => grid[r].some((_, c) => {
+			const origin = this.findSpanOrigin(grid, r, c);
+			return origin != null && origin.rowSpan > 1;
+		}));
+	}
+
+	/**
+	 * Whether any of the given columns takes part in a cell spanning multiple columns.
+	 */
+	static columnsTouchColumnSpans(tableElement: HTMLTableElement, colIndices: number[]): boolean {
+		const grid = this.getCellGrid(tableElement);
+		return grid.some((cells, r) => colIndices.some((c) => {
+			const origin = this.findSpanOrigin(grid, r, c);
+			return origin != null && origin.colSpan > 1;
+		}));
+	}
+
+	static mergeCells(view: EditorView, tableElement: HTMLTableElement, row: number, col: number, direction: "right" | "down") {
+		const content = this.tableContentFromDOM(view, tableElement);
+
+		let merged;
+		try {
+			merged = direction == "right" ? content.mergeRight(row, col) : content.mergeDown(row, col);
+		} catch (e) {
+			new Notice(e.message);
+			return;
+		}
+
+		this.writeOverTable(view, tableElement, serializeTable(merged));
+	}
+
+	static splitCell(view: EditorView, tableElement: HTMLTableElement, row: number, col: number) {
+		const content = this.tableContentFromDOM(view, tableElement);
+		this.writeOverTable(view, tableElement, serializeTable(content.splitCell(row, col)));
 	}
 
 	static deleteColumn(view: EditorView, tableElement: HTMLTableElement, colIndex: number) {
-		const trs = Array.from(tableElement.querySelectorAll(`:scope > tr`))
+		this.deleteColumns(view, tableElement, colIndex, colIndex);
+	}
+
+	/**
+	 * Deletes the columns from first to last (inclusive) as a single edit.
+	 */
+	static deleteColumns(view: EditorView, tableElement: HTMLTableElement, first: number, last: number) {
+		const trs = this.getRowElements(tableElement);
 		const [editorStorage] = view.state.facet(nestedEditorsFacet);
 
 		const tableAttrs = TableAttributes.read(tableElement);
+		last = Math.min(last, tableAttrs.cols - 1);
+		if (first > last) return;
 
-		if (tableAttrs.cols == 1) {
+		if (last - first + 1 == tableAttrs.cols) {
 			this.deleteTable(view, tableElement);
 			return;
 		}
+		this.setSelection(tableElement, null);
 
 		let currentFocus: TableCellAttributes | null = null;
-		for (const tr of trs) {
-			const td = tr.querySelector(`:scope > td:nth-child(${colIndex + 1})`);
+		for (let colIndex = last; colIndex >= first; colIndex--) {
+			this.shrinkSpansOverDeletedColumn(tableElement, colIndex);
 
-			if (!td) continue;
+			for (const tr of trs) {
+				const td = this.getCellElements(tr)[colIndex];
 
-			const editor = editorStorage.getEditorByElement(td.children[0]);
+				if (!td) continue;
 
-			if (editor && editor.activeEditor) {
-				if (editor.activeEditor.editorEl.contains(document.activeElement)) {
-					currentFocus = TableCellAttributes.read(td)
+				const editor = editorStorage.getEditorByElement(td.children[0]);
+
+				if (editor && editor.activeEditor) {
+					if (editor.activeEditor.editorEl.contains(document.activeElement)) {
+						currentFocus = TableCellAttributes.read(td)
+					}
+					editorStorage.delEditor(editor);
 				}
-				editorStorage.delEditor(editor);
-			}
 
-			td.remove();
+				this.unloadPreview(td.children[0]);
+				td.remove();
+			}
 		}
 
 		if (currentFocus) {
@@ -449,16 +974,17 @@ export class GridTableWidget extends WidgetType {
 			let newFocusCol;
 
 			// Focus should go to the next col unless there isn't any
-			// (next col is 'sliding into' where deleted col was).
-			if (currentFocus.col == tableAttrs.cols - 1) {
-				newFocusCol = currentFocus.col - 1;
+			// (next col is 'sliding into' where deleted cols were).
+			// The cells still have their positions from before deleting.
+			if (last == tableAttrs.cols - 1) {
+				newFocusCol = first - 1;
 			} else {
-				newFocusCol = currentFocus.col + 1;
+				newFocusCol = last + 1;
 			}
 
 			const newFocus = this.getCellAt(tableElement, newFocusCol, newFocusRow)
 			if (newFocus) {
-				editorStorage.getEditorByElement(newFocus?.children[0])?.focus();
+				this.focusCell(view, newFocus);
 			}
 		}
 
@@ -493,7 +1019,13 @@ export class GridTableWidget extends WidgetType {
 	static addRowAfter(view: EditorView, containingTable: HTMLTableElement, file: TFile, rowIndex: number | null) {
 		const newRow = new TableRow(Array.from({ length: TableAttributes.read(containingTable).cols }, () => new TableCell("")));
 		const newTR = this.constructRow(newRow, view, containingTable, file);
-		containingTable.insertBefore(newTR, rowIndex === null ? rowIndex : containingTable.children[rowIndex + 1]);
+		const nextTR = rowIndex === null ? undefined : this.getRowElements(containingTable)[rowIndex + 1];
+		if (nextTR) {
+			nextTR.before(newTR);
+		} else {
+			containingTable.appendChild(newTR);
+		}
+		this.spanOverInsertedRow(containingTable, this.getRowElements(containingTable).indexOf(newTR));
 		this.flushDomToFile(view, containingTable);
 	}
 
@@ -507,31 +1039,41 @@ export class GridTableWidget extends WidgetType {
 		const tr = this.genTrEl();
 
 		for (const cell of row.cells) {
-			const [td, editor] = this.constructCell(view, containingTable, file);
-
-			editor.setContent(cell.content);
-			tr.appendChild(td);
+			tr.appendChild(this.constructCell(view, containingTable, file, cell.content));
 		}
 
 		return tr;
 	}
 
 	static tryShiftFromBy(view: EditorView, tableElement: HTMLTableElement, fromEditor: ObsidianEditorAdapter, byAmount: number, newCellCallback: ((newEditor: EditorView) => void) | undefined = undefined): boolean {
-		const [editors] = view.state.facet(nestedEditorsFacet);
-
 		const editorIndex = GridTableWidget.getIndexOfEditor(fromEditor);
 		if (editorIndex == -1) return false;
-		const desired = editorIndex + byAmount;
-		const [desiredEl] = Array.from(tableElement.querySelectorAll(`:scope > tr > td[tab-index="${desired}"] > div`));
-		if (desiredEl == undefined) {
-			return false;
+		this.setSelection(tableElement, null);
+		const fromCell = this.getCellOfEditor(fromEditor);
+		let desired = editorIndex + byAmount;
+		let desiredCell = this.findCell(tableElement, `[tab-index="${desired}"]`);
+
+		// Cells hidden under a merged cell are skipped when moving sideways. When moving
+		// vertically, focus goes to the merged cell itself (unless that's where we came from).
+		while (desiredCell && this.isCoveredCell(desiredCell)) {
+			const isVertical = Math.abs(byAmount) > 1;
+			const attrs = TableCellAttributes.read(desiredCell);
+			const origin = isVertical ? this.findSpanOrigin(this.getCellGrid(tableElement), attrs.row, attrs.col) : null;
+			if (origin && origin != fromCell) {
+				desiredCell = origin;
+				break;
+			}
+
+			desired += byAmount;
+			desiredCell = this.findCell(tableElement, `[tab-index="${desired}"]`);
 		}
-		const editor = editors.getEditorByElement(desiredEl)
-		if (!editor) {
-			throw new Error();
+
+		if (!desiredCell) {
+			return false;
 		}
 
-		editor.focus();
+		// The cell's editor gets mounted if it isn't yet.
+		const editor = this.focusCell(view, desiredCell);
 		if (newCellCallback) {
 			newCellCallback(editor.editorView);
 		}
@@ -551,35 +1093,213 @@ export class GridTableWidget extends WidgetType {
 		}
 	}
 
-	static constructCell(view: EditorView, tableElement: HTMLTableElement, file: TFile): [HTMLTableCellElement, ObsidianEditorAdapter] {
+	static constructCell(view: EditorView, tableElement: HTMLTableElement, file: TFile, content: string): HTMLTableCellElement {
 		const td = document.createElement("td");
 		td.classList.add(EDITOR_TABLE_CELL_CLASS);
 
-		const [editorStorage] = view.state.facet(nestedEditorsFacet);
-		const [div, editor] = editorStorage.newEditor(() => [
-			Prec.highest(
-				keymap.of([
-					{
-						key: 'Tab',
-						run: this.genTabHandler(false, editor, view, tableElement, file),
-						shift: this.genTabHandler(true, editor, view, tableElement, file),
-						preventDefault: true,
-					},
-					{
-						key: 'ArrowUp',
-						run: (target) => {
-							if (GridTableWidget.genShiftByOnConditionHandler(
-								view,
-								tableElement,
-								editor,
-								() => -TableAttributes.read(tableElement).cols,
-								(cellEditor) => cellEditor.state.selection.main.head == 0,
-								moveCursorToEnd,
-							)(target)) {
-								return true;
-							}
+		const container = document.createElement("div");
+		td.appendChild(container);
+
+		const lazyCell: LazyCell = {
+			content,
+			mount: () => this.mountEditor(view, tableElement, file, container, lazyCell.content),
+			unmountTimer: null,
+			formulaResult: null,
+			preview: null,
+		};
+		lazyCells.set(container, lazyCell);
+		this.renderPreview(view, container, file);
+
+		container.addEventListener("focusin", () => {
+			if (lazyCell.unmountTimer != null) {
+				window.clearTimeout(lazyCell.unmountTimer);
+				lazyCell.unmountTimer = null;
+			}
+		});
+		container.addEventListener("focusout", () => {
+			if (lazyCell.unmountTimer != null) {
+				window.clearTimeout(lazyCell.unmountTimer);
+			}
+			lazyCell.unmountTimer = window.setTimeout(() => {
+				lazyCell.unmountTimer = null;
+				// Cells which were removed had their editor freed along with them.
+				if (container.isConnected && !container.contains(document.activeElement)) {
+					this.unmountEditor(view, container, file);
+				}
+			}, CELL_EDITOR_IDLE_MS);
+		});
 
-							const cellAttrs = this.getAttsOfEditor(editor);
+		return td;
+	}
+
+	/**
+	 * Shows the cell's content as rendered Markdown (or the result of its formula), to be replaced
+	 * by an editor once clicked.
+	 */
+	static renderPreview(view: EditorView, container: Element, file: TFile) {
+		const lazyCell = lazyCells.get(container);
+		if (!lazyCell) throw new Error("Not a cell's editor container!");
+
+		this.unloadPreview(container);
+		container.empty();
+		const preview = container.createDiv({ cls: EDITOR_TABLE_CELL_PREVIEW_CLASS });
+		// Focusable, so that keyboard users can get into the cell.
+		preview.tabIndex = 0;
+		if (lazyCell.formulaResult) {
+			renderFormulaResult(preview, lazyCell.formulaResult);
+		} else if (globalPlugin) {
+			const component = new Component();
+			component.load();
+			lazyCell.preview = component;
+			MarkdownRenderer.render(globalPlugin.app, lazyCell.content, preview, file.path, component).catch((e) => {
+				console.error("Couldn't render the cell's content:", e);
+				preview.setText(lazyCell.content);
+			});
+		}
+
+		preview.addEventListener("focus", () => {
+			this.focusCell(view, container.parentElement as HTMLTableCellElement);
+		});
+		preview.addEventListener("mousedown", (event) => {
+			// Otherwise focusing the preview would replace it with the editor before the link is clicked.
+			if (event.target instanceof Element && event.target.closest("a")) {
+				event.preventDefault();
+			}
+		});
+		preview.addEventListener("click", (event) => {
+			// Links keep working without going into the cell.
+			if (event.target instanceof Element && event.target.closest("a")) return;
+
+			this.focusCell(view, container.parentElement as HTMLTableCellElement);
+		});
+	}
+
+	static unloadPreview(container: Element) {
+		const lazyCell = lazyCells.get(container);
+		if (lazyCell?.preview) {
+			lazyCell.preview.unload();
+			lazyCell.preview = null;
+		}
+	}
+
+	static getCellContainer(td: Element): Element {
+		const container = td.querySelector(":scope > div");
+		if (container == null) {
+			console.error(td);
+			throw new Error("No editor container for td in table");
+		}
+
+		return container;
+	}
+
+	/**
+	 * Mounts the cell's editor if it doesn't have one yet.
+	 */
+	static mountCellEditor(view: EditorView, td: Element): ObsidianEditorAdapter {
+		const [editors] = view.state.facet(nestedEditorsFacet);
+		const container = this.getCellContainer(td);
+
+		const editor = editors.getEditorByElement(container);
+		if (editor) {
+			return editor;
+		}
+
+		const lazyCell = lazyCells.get(container);
+		if (!lazyCell) throw new Error("Not a cell's editor container!");
+
+		return lazyCell.mount();
+	}
+
+	static focusCell(view: EditorView, td: Element): ObsidianEditorAdapter {
+		const editor = this.mountCellEditor(view, td);
+		editor.focus();
+
+		return editor;
+	}
+
+	static unmountEditor(view: EditorView, container: Element, file: TFile) {
+		const [editors] = view.state.facet(nestedEditorsFacet);
+		const editor = editors.getEditorByElement(container);
+		const lazyCell = lazyCells.get(container);
+		if (!editor || !lazyCell) return;
+
+		lazyCell.content = editor.getContent();
+		editors.delEditor(editor);
+		this.renderPreview(view, container, file);
+	}
+
+	static getCellContent(view: EditorView, td: Element): string {
+		const [editors] = view.state.facet(nestedEditorsFacet);
+		const container = this.getCellContainer(td);
+
+		const editor = editors.getEditorByElement(container);
+		if (editor) {
+			return editor.getContent();
+		}
+
+		return lazyCells.get(container)?.content ?? "";
+	}
+
+	/**
+	 * Changes the cell's content without writing it to the file.
+	 */
+	static setCellContent(view: EditorView, td: Element, file: TFile, content: string) {
+		const [editors] = view.state.facet(nestedEditorsFacet);
+		const container = this.getCellContainer(td);
+
+		const editor = editors.getEditorByElement(container);
+		if (editor) {
+			const changeHandler = editor.getChangeHandler();
+			editor.setChangeHandler(undefined);
+			// Leave the editor alone if only whitespace differs, so the cursor doesn't jump around.
+			if (trimLines(content).trim() != trimLines(editor.getContent()).trim()) {
+				editor.setContent(content);
+			}
+			editor.setChangeHandler(changeHandler);
+			return;
+		}
+
+		const lazyCell = lazyCells.get(container);
+		if (!lazyCell) throw new Error("Not a cell's editor container!");
+
+		if (lazyCell.content != content) {
+			lazyCell.content = content;
+			// Evaluated again once the whole table is in sync.
+			lazyCell.formulaResult = null;
+			this.renderPreview(view, container, file);
+		}
+	}
+
+	static mountEditor(view: EditorView, tableElement: HTMLTableElement, file: TFile, container: Element, content: string): ObsidianEditorAdapter {
+		this.unloadPreview(container);
+		container.empty();
+
+		const [editorStorage] = view.state.facet(nestedEditorsFacet);
+		const owner = { widgetUid: TableAttributes.readWidgetUid(tableElement), tableElement };
+		const [, editor] = editorStorage.newEditor(() => [
+			Prec.highest(
+				keymap.of([
+					{
+						key: 'Tab',
+						run: this.genTabHandler(false, editor, view, tableElement, file),
+						shift: this.genTabHandler(true, editor, view, tableElement, file),
+						preventDefault: true,
+					},
+					{
+						key: 'ArrowUp',
+						run: (target) => {
+							if (GridTableWidget.genShiftByOnConditionHandler(
+								view,
+								tableElement,
+								editor,
+								() => -TableAttributes.read(tableElement).cols,
+								(cellEditor) => cellEditor.state.selection.main.head == 0,
+								moveCursorToEnd,
+							)(target)) {
+								return true;
+							}
+
+							const cellAttrs = this.getAttsOfEditor(editor);
 
 							// If first row
 							if (cellAttrs.row == 0) {
@@ -618,8 +1338,8 @@ export class GridTableWidget extends WidgetType {
 							const cellAttrs = this.getAttsOfEditor(editor);
 							const tableAttrs = TableAttributes.read(tableElement);
 
-							// If last row
-							if (cellAttrs.row == tableAttrs.rows - 1) {
+							// If last row (merged cells may reach it from above)
+							if (cellAttrs.row + this.getCellOfEditor(editor).rowSpan - 1 == tableAttrs.rows - 1) {
 								// If cursor is at the end of the cell
 								if (target.state.selection.main.head == target.state.doc.length) {
 									const widgetPos = view.posAtDOM(tableElement);
@@ -664,31 +1384,213 @@ export class GridTableWidget extends WidgetType {
 						),
 						preventDefault: true,
 					},
+					...this.genSelectionKeyBindings(view, tableElement, file, editor),
 				])
 			),
-			// Forward simple undo/redo out
-			// TODO: Also hook into editor.undo()
-			genKeyForwarder(view, ["Mod-z", "Mod-y"]),
-		], file, view)
+			genHistoryForwarder(view),
+		], file, owner, view, container)
+		editor.setContent(content);
 		editor.setChangeHandler((update) => {
 			if (update.docChanged) {
-				this.flushDomToFile(view, tableElement);
+				const userEvent = update.transactions
+					.map((tr) => tr.annotation(Transaction.userEvent))
+					.find((event) => event != undefined);
+				const newCell = lastEditedCell.get(view) != container;
+				lastEditedCell.set(view, container);
+				this.setSelection(tableElement, null);
+
+				this.flushDomToFile(view, tableElement, { userEvent: userEvent ?? "input", newCell });
 			}
 		});
 
-		td.appendChild(div);
+		// Undo from the menu or the mobile toolbar goes through the cell's Editor rather than
+		// the key bindings above.
+		const cellEditor = editor.activeEditor?.editor;
+		if (cellEditor) {
+			cellEditor.undo = () => { undo(view); };
+			cellEditor.redo = () => { redo(view); };
+		}
+
+		return editor;
+	}
+
+	/**
+	 * Shift+arrow at the border of a cell selects the cells in that direction, and once cells are
+	 * selected, these keys work on all of them. Copying and cutting are handled by handleCopy.
+	 */
+	static genSelectionKeyBindings(view: EditorView, tableElement: HTMLTableElement, file: TFile, editor: ObsidianEditorAdapter): KeyBinding[] {
+		const hasSelection = () => tableSelections.has(tableElement);
+		const extendBy = (rowDelta: number, colDelta: number, atBorder: (cellEditor: EditorView) => boolean) => (target: EditorView) => {
+			if (!hasSelection() && !atBorder(target)) {
+				return false;
+			}
+
+			this.extendSelectionBy(tableElement, this.getCellOfEditor(editor), rowDelta, colDelta);
+			return true;
+		};
+		const atStart = (cellEditor: EditorView) => cellEditor.state.selection.main.head == 0;
+		const atEnd = (cellEditor: EditorView) => cellEditor.state.selection.main.head == cellEditor.state.doc.length;
+		const ifSelected = (action: () => void) => () => {
+			if (!hasSelection()) {
+				return false;
+			}
+
+			action();
+			return true;
+		};
+
+		return [
+			{ key: 'Shift-ArrowUp', run: extendBy(-1, 0, atStart), preventDefault: true },
+			{ key: 'Shift-ArrowDown', run: extendBy(1, 0, atEnd), preventDefault: true },
+			{ key: 'Shift-ArrowLeft', run: extendBy(0, -1, atStart), preventDefault: true },
+			{ key: 'Shift-ArrowRight', run: extendBy(0, 1, atEnd), preventDefault: true },
+			{ key: 'Escape', run: ifSelected(() => this.setSelection(tableElement, null)) },
+			{ key: 'Delete', run: ifSelected(() => this.clearSelectedCells(view, tableElement, file)) },
+			{ key: 'Backspace', run: ifSelected(() => this.clearSelectedCells(view, tableElement, file)) },
+		];
+	}
+
+	static getCellPosition(td: Element): CellPosition {
+		const attrs = TableCellAttributes.read(td);
+		return { row: attrs.row, col: attrs.col };
+	}
+
+	/**
+	 * The table's layout of merged cells, without reading the cells' contents.
+	 */
+	static tableSpansFromDOM(tableElement: Element): TableContent {
+		return new TableContent(this.getCellGrid(tableElement).map((tds) => new TableRow(tds.map((td) =>
+			this.isCoveredCell(td) ? TableCell.covered() : new TableCell("", td.rowSpan, td.colSpan)
+		))));
+	}
+
+	/**
+	 * The selected cells, grown over any merged cells the selection cuts through.
+	 */
+	static getSelectedRange(tableElement: Element): CellRange | null {
+		const selection = tableSelections.get(tableElement);
+		if (!selection) {
+			return null;
+		}
+
+		return expandToSpans(rangeBetween(selection.anchor, selection.head), this.tableSpansFromDOM(tableElement));
+	}
+
+	static setSelection(tableElement: Element, selection: TableSelection | null) {
+		if (selection) {
+			tableSelections.set(tableElement, selection);
+		} else if (tableSelections.has(tableElement)) {
+			tableSelections.delete(tableElement);
+		} else {
+			return;
+		}
+
+		this.renderSelection(tableElement);
+	}
+
+	/**
+	 * Highlights the selected cells. Selections which don't fit the table anymore are dropped.
+	 */
+	static renderSelection(tableElement: Element) {
+		const grid = this.getCellGrid(tableElement);
+		const selection = tableSelections.get(tableElement);
+		const fits = (position: CellPosition) => position.row < grid.length && position.col < (grid[position.row]?.length ?? 0);
+		if (selection && !(fits(selection.anchor) && fits(selection.head))) {
+			tableSelections.delete(tableElement);
+		}
+
+		const range = this.getSelectedRange(tableElement);
+		for (const [row, tds] of enumerate(grid)) {
+			for (const [col, td] of enumerate(tds)) {
+				td.classList.toggle(EDITOR_TABLE_SELECTED_CELL_CLASS, range != null && rangeContains(range, row, col));
+			}
+		}
+	}
+
+	/**
+	 * Selects the cells up to the given one, starting from the given cell unless cells are selected already.
+	 */
+	static selectTo(tableElement: Element, fromTd: Element, head: CellPosition) {
+		const anchor = tableSelections.get(tableElement)?.anchor ?? this.getCellPosition(fromTd);
+		this.setSelection(tableElement, { anchor, head });
+	}
+
+	static extendSelectionBy(tableElement: Element, fromTd: Element, rowDelta: number, colDelta: number) {
+		const head = tableSelections.get(tableElement)?.head ?? this.getCellPosition(fromTd);
+		this.selectTo(tableElement, fromTd, moveHead(head, rowDelta, colDelta, this.tableSpansFromDOM(tableElement)));
+	}
+
+	/**
+	 * Shift+click selects the cells between the focused cell and the clicked one.
+	 */
+	static handleMouseDown(tableElement: HTMLTableElement, event: MouseEvent) {
+		const td = event.target instanceof Element ? event.target.closest("td, th") : null;
+		if (!td || td.closest("table") != tableElement) return;
+
+		if (!event.shiftKey) {
+			this.setSelection(tableElement, null);
+			return;
+		}
+
+		const focusedTd = document.activeElement?.closest("td, th");
+		const fromTd = focusedTd && tableElement.contains(focusedTd) ? focusedTd : null;
+		// Shift+click inside the focused cell selects text as usual.
+		if (!tableSelections.has(tableElement) && (fromTd == null || fromTd == td)) return;
+
+		event.preventDefault();
+		event.stopPropagation();
+		this.selectTo(tableElement, fromTd ?? td, this.getCellPosition(td));
+	}
+
+	static getSelectedCells(tableElement: Element): HTMLTableCellElement[] {
+		const range = this.getSelectedRange(tableElement);
+		if (!range) {
+			return [];
+		}
+
+		return this.getCellGrid(tableElement).flatMap((tds, row) =>
+			tds.filter((td, col) => rangeContains(range, row, col) && !this.isCoveredCell(td)));
+	}
+
+	static clearSelectedCells(view: EditorView, tableElement: HTMLTableElement, file: TFile) {
+		const cells = this.getSelectedCells(tableElement);
+		if (cells.length == 0) return;
+
+		for (const td of cells) {
+			this.setCellContent(view, td, file, "");
+		}
+		this.flushDomToFile(view, tableElement);
+	}
 
-		return [td, editor];
+	/**
+	 * Copies (or cuts) the selected cells, both as tab-separated values and as a grid table.
+	 */
+	static handleCopy(view: EditorView, tableElement: HTMLTableElement, file: TFile, event: ClipboardEvent, isCut: boolean) {
+		const range = this.getSelectedRange(tableElement);
+		if (!range || !event.clipboardData) return;
+
+		const content = this.tableContentFromDOM(view, tableElement);
+		event.clipboardData.setData("text/plain", toDelimited(rangeValues(content, range), "\t", "\n"));
+		event.clipboardData.setData(GRID_TABLE_CLIPBOARD_TYPE, serializeTable(rangeTable(content, range)));
+		// Otherwise the cell editor would copy its own selection.
+		event.preventDefault();
+		event.stopPropagation();
+
+		if (isCut) {
+			this.clearSelectedCells(view, tableElement, file);
+		}
 	}
 
 	static addColumnAt(view: EditorView, tableElement: HTMLTableElement, file: TFile, columnIndex: number | null) {
-		const trs = Array.from(tableElement.querySelectorAll(":scope > tr"));
+		const trs = this.getRowElements(tableElement);
+		let insertedIndex = 0;
 		for (let i = 0; i < trs.length; i++) {
-			const [td, editor] = this.constructCell(view, tableElement, file);
-			editor.setContent("");
+			const td = this.constructCell(view, tableElement, file, "");
 			trs[i].insertBefore(td, columnIndex == null ? columnIndex : trs[i].children[columnIndex]);
+			insertedIndex = this.getCellElements(trs[i]).indexOf(td);
 		}
 
+		this.spanOverInsertedColumn(tableElement, insertedIndex);
 		this.flushDomToFile(view, tableElement);
 	}
 
@@ -697,11 +1599,15 @@ export class GridTableWidget extends WidgetType {
 		const [editorStorage] = view.state.facet(nestedEditorsFacet);
 
 		if (fromIndex < 0 || fromIndex >= tableAttrs.cols || toIndex < 0 || toIndex >= tableAttrs.cols || fromIndex == toIndex) return;
+		if (this.columnsTouchColumnSpans(tableElement, [fromIndex, toIndex])) {
+			new Notice("Can't move columns which are part of merged cells!");
+			return;
+		}
 
 		let focusedEditor = null;
 
-		for (const tr of Array.from(tableElement.querySelectorAll(":scope > tr"))) {
-			const tdToMove = tr.querySelector(`:scope > td:nth-child(${fromIndex + 1})`);
+		for (const tr of this.getRowElements(tableElement)) {
+			const tdToMove = this.getCellElements(tr)[fromIndex];
 			if (!tdToMove) continue;
 
 			if (tdToMove.contains(document.activeElement)) {
@@ -712,7 +1618,7 @@ export class GridTableWidget extends WidgetType {
 			}
 
 			tdToMove.remove();
-			const tdToPutAfter = tr.querySelector(`:scope > td:nth-child(${toIndex})`)
+			const tdToPutAfter = this.getCellElements(tr)[toIndex - 1] ?? null;
 			tr.insertAfter(tdToMove, tdToPutAfter);
 
 		}
@@ -722,30 +1628,172 @@ export class GridTableWidget extends WidgetType {
 		this.flushDomToFile(view, tableElement);
 	}
 
+	static setColumnAlignment(view: EditorView, tableElement: HTMLTableElement, colIndex: number, alignment: ColumnAlignment) {
+		for (const tr of this.getRowElements(tableElement)) {
+			const td = this.getCellElements(tr)[colIndex];
+			if (!td) continue;
+
+			TableCellAttributes.writeAlignment(td, alignment);
+		}
+
+		this.flushDomToFile(view, tableElement);
+	}
+
+	static normalizeWidths(view: EditorView, tableElement: HTMLTableElement) {
+		const content = this.tableContentFromDOM(view, tableElement).normalizeWidths();
+		this.writeOverTable(view, tableElement, serializeTable(content));
+	}
+
+	static sortByColumn(view: EditorView, tableElement: HTMLTableElement, colIndex: number, descending: boolean) {
+		const content = this.tableContentFromDOM(view, tableElement);
+
+		let sorted;
+		try {
+			sorted = sortRowsByColumn(content, colIndex, descending);
+		} catch (e) {
+			new Notice(e.message);
+			return;
+		}
+
+		this.setSelection(tableElement, null);
+		this.writeOverTable(view, tableElement, serializeTable(sorted));
+	}
+
+	/**
+	 * Swaps the table's rows and columns. The focus follows the cell from the given position.
+	 */
+	static transpose(view: EditorView, tableElement: HTMLTableElement, row: number, col: number) {
+		const transposed = this.tableContentFromDOM(view, tableElement).transpose();
+
+		this.setSelection(tableElement, null);
+		this.writeOverTable(view, tableElement, serializeTable(transposed));
+
+		// The document is in the middle of updating, so focusing has to wait.
+		window.setTimeout(() => {
+			if (!tableElement.isConnected) return;
+
+			const [originRow, originCol] = transposed.findSpanOrigin(col, row);
+			const td = this.getCellGrid(tableElement)[originRow]?.[originCol];
+			if (td) {
+				this.focusCell(view, td);
+			}
+		});
+	}
+
+	/**
+	 * Fills the cells starting at the given one with the values, adding rows and columns
+	 * to the end of the table if they don't fit. The whole paste is a single edit.
+	 */
+	static pasteIntoCells(view: EditorView, tableElement: HTMLTableElement, row: number, col: number, values: string[][]) {
+		const content = this.tableContentFromDOM(view, tableElement).fillCells(row, col, values);
+		this.writeOverTable(view, tableElement, serializeTable(content));
+	}
+
+	static async exportTableContent(view: EditorView, tableElement: HTMLTableElement, file: TFile, format: ExportFormat): Promise<string | null> {
+		const content = this.tableContentFromDOM(view, tableElement);
+
+		try {
+			return await exportTable(content, format, cellRenderer(file.path));
+		} catch (e) {
+			new Notice(e.message);
+			return null;
+		}
+	}
+
+	static async copyTableAs(view: EditorView, tableElement: HTMLTableElement, file: TFile, format: ExportFormat) {
+		const exported = await this.exportTableContent(view, tableElement, file, format);
+		if (exported == null) return;
+
+		try {
+			if (format == "html") {
+				// So that pasting into rich text editors gives a table, rather than its markup.
+				await navigator.clipboard.write([new ClipboardItem({
+					"text/html": new Blob([exported], { type: "text/html" }),
+					"text/plain": new Blob([exported], { type: "text/plain" }),
+				})]);
+			} else {
+				await navigator.clipboard.writeText(exported);
+			}
+		} catch (e) {
+			new Notice(`Couldn't copy the table: ${e.message}`);
+			return;
+		}
+
+		new Notice(`Copied table as ${EXPORT_FORMAT_NAMES[format]}.`);
+	}
+
+	/**
+	 * Writes the table into a new file next to the note it's in.
+	 */
+	static async exportTableToFile(view: EditorView, tableElement: HTMLTableElement, file: TFile, format: ExportFormat) {
+		if (!globalPlugin) return;
+		const vault = globalPlugin.app.vault;
+
+		let exported = await this.exportTableContent(view, tableElement, file, format);
+		if (exported == null) return;
+		if (format == "html") {
+			exported = htmlDocument(file.basename, exported);
+		}
+
+		const folder = file.parent?.path ?? "/";
+		const extension = EXPORT_FORMAT_EXTENSIONS[format];
+		let path = normalizePath(`${folder}/${file.basename} table.${extension}`);
+		for (let i = 2; vault.getAbstractFileByPath(path) != null; i++) {
+			path = normalizePath(`${folder}/${file.basename} table ${i}.${extension}`);
+		}
+
+		try {
+			await vault.create(path, exported);
+		} catch (e) {
+			new Notice(`Couldn't export the table to ${path}: ${e.message}`);
+			return;
+		}
+		new Notice(`Exported table to ${path}.`);
+	}
+
+	static convertToPipeTable(view: EditorView, tableElement: HTMLTableElement, options: PipeTableOptions) {
+		const content = this.tableContentFromDOM(view, tableElement);
+
+		let pipeTable;
+		try {
+			pipeTable = tableContentToPipeTable(content, options);
+		} catch (e) {
+			new Notice(e.message);
+			return;
+		}
+
+		this.writeOverTable(view, tableElement, pipeTable);
+	}
+
 	static moveRow(view: EditorView, tableElement: HTMLTableElement, fromIndex: number, toIndex: number) {
 		const tableAttrs = TableAttributes.read(tableElement);
 		const [editorStorage] = view.state.facet(nestedEditorsFacet);
 
 		if (fromIndex < 0 || fromIndex >= tableAttrs.rows || toIndex < 0 || toIndex >= tableAttrs.rows || fromIndex == toIndex) return;
-		const trToMove = tableElement.querySelector(`:scope > tr:nth-child(${fromIndex + 1})`);
+		if (this.rowsTouchRowSpans(tableElement, [fromIndex, toIndex])) {
+			new Notice("Can't move rows which are part of merged cells!");
+			return;
+		}
+		const trToMove = this.getRowElements(tableElement)[fromIndex];
 		if (!trToMove) return;
 
 		let focusedEditor = null;
 
-		for (const td of Array.from(trToMove.querySelectorAll(":scope > td"))) {
-			const editor = editorStorage.getEditorByElement(td.children[0]);
-			if (!editor) throw new Error();
-
+		for (const td of this.getCellElements(trToMove)) {
 			if (td.contains(document.activeElement)) {
-				focusedEditor = editor;
+				focusedEditor = editorStorage.getEditorByElement(this.getCellContainer(td));
 				break;
 			}
 		}
 
 		trToMove?.remove()
 
-		const trToPutAfter = tableElement.querySelector(`:scope > tr:nth-child(${toIndex})`);
-		tableElement.insertAfter(trToMove, trToPutAfter);
+		const remainingRows = this.getRowElements(tableElement);
+		if (toIndex == 0) {
+			remainingRows[0].before(trToMove);
+		} else {
+			remainingRows[toIndex - 1].after(trToMove);
+		}
 
 		focusedEditor?.focus();
 		this.flushDomToFile(view, tableElement);
@@ -765,8 +1813,13 @@ export class GridTableWidget extends WidgetType {
 
 		const table = document.createElement("table");
 		table.classList.add(EDITOR_TABLE_CLASS);
+		TableAttributes.writeWidgetUid(table, this.uid);
 
 		GridTableWidget.syncDomTableWithContent(view, table, this.contentToWriteToState, this.originalLength, this.file, plugin);
+		// Capturing, so that shift+click and copying selected cells don't get to the cell editors.
+		table.addEventListener("mousedown", (event) => GridTableWidget.handleMouseDown(table, event), true);
+		table.addEventListener("copy", (event) => GridTableWidget.handleCopy(view, table, this.file, event, false), true);
+		table.addEventListener("cut", (event) => GridTableWidget.handleCopy(view, table, this.file, event, true), true);
 
 		div.appendChild(table);
 
@@ -794,6 +1847,7 @@ export class GridTableWidget extends WidgetType {
 	static freeTD(editors: ObsidianEditorStorage, td: Element) {
 		const editorContainer = td.querySelector(":scope > div");
 		if (editorContainer) {
+			this.unloadPreview(editorContainer);
 			const editor = editors.getEditorByElement(editorContainer);
 			if (editor) {
 				editors.delEditor(editor);
@@ -802,7 +1856,7 @@ export class GridTableWidget extends WidgetType {
 	}
 
 	static syncDomTableDimensions(view: EditorView, tableEl: HTMLTableElement, file: TFile, desiredWidth: number, desiredHeight: number) {
-		const rowElements = Array.from(tableEl.querySelectorAll(":scope > tr"));
+		const rowElements = this.getRowElements(tableEl);
 		const [editors] = view.state.facet(nestedEditorsFacet);
 
 		// Add missing rows
@@ -815,7 +1869,7 @@ export class GridTableWidget extends WidgetType {
 		// Trim excess rows
 		if (rowElements.length > desiredHeight) {
 			for (const excessTR of rowElements.slice(desiredHeight)) {
-				for (const td of Array.from(excessTR.querySelectorAll(":scope > td"))) {
+				for (const td of this.getCellElements(excessTR)) {
 					this.freeTD(editors, td);
 				}
 				excessTR.remove();
@@ -823,12 +1877,11 @@ export class GridTableWidget extends WidgetType {
 		}
 
 		for (const rowEl of rowElements) {
-			const cellElements = Array.from(rowEl.querySelectorAll(":scope > td"));
+			const cellElements = this.getCellElements(rowEl);
 
 			// Add missing cells
 			for (let i = cellElements.length; i < desiredWidth; i++) {
-				const [newCell, editor] = this.constructCell(view, tableEl, file);
-				editor.setContent("");
+				const newCell = this.constructCell(view, tableEl, file, "");
 				rowEl.appendChild(newCell);
 				cellElements.push(newCell);
 			}
@@ -841,227 +1894,556 @@ export class GridTableWidget extends WidgetType {
 		}
 	}
 
-	static syncDomTableWithContent(view: EditorView, tableEl: HTMLTableElement, content: TableContent, sourceLength: number, file: TFile, plugin: Plugin) {
-		const [editors] = view.state.facet(nestedEditorsFacet);
+	static retagCell(cellEl: HTMLTableCellElement, tagName: "td" | "th"): HTMLTableCellElement {
+		const newCellEl = document.createElement(tagName);
+		for (const attr of Array.from(cellEl.attributes)) {
+			newCellEl.setAttribute(attr.name, attr.value);
+		}
+		// Moving the editor container keeps the editor registered in the storage.
+		while (cellEl.firstChild) {
+			newCellEl.appendChild(cellEl.firstChild);
+		}
+		cellEl.replaceWith(newCellEl);
+
+		return newCellEl;
+	}
+
+	static syncDomTableHeader(tableEl: HTMLTableElement, hasHeaderRow: boolean) {
+		const rowElements = this.getRowElements(tableEl);
+		let thead = tableEl.querySelector(":scope > thead");
+
+		if (hasHeaderRow) {
+			if (!thead) {
+				thead = document.createElement("thead");
+				tableEl.prepend(thead);
+			}
+			if (rowElements[0].parentElement != thead) {
+				thead.appendChild(rowElements[0]);
+			}
+
+			// Rows which got inserted into the header (e.g. 'Add Row Above') belong in the body.
+			for (const tr of rowElements.slice(1).reverse()) {
+				if (tr.parentElement == thead) {
+					thead.after(tr);
+				}
+			}
+		} else if (thead) {
+			for (const tr of rowElements.slice().reverse()) {
+				if (tr.parentElement == thead) {
+					thead.after(tr);
+				}
+			}
+			thead.remove();
+		}
 
+		for (const [rowIdx, rowEl] of enumerate(rowElements)) {
+			const desiredTag = hasHeaderRow && rowIdx == 0 ? "th" : "td";
+			for (const cellEl of this.getCellElements(rowEl)) {
+				if (cellEl.tagName.toLowerCase() != desiredTag) {
+					this.retagCell(cellEl, desiredTag);
+				}
+			}
+		}
+	}
+
+	static syncDomTableWithContent(view: EditorView, tableEl: HTMLTableElement, content: TableContent, sourceLength: number, file: TFile, plugin: Plugin, syncCellContents = true) {
 		this.syncDomTableDimensions(view, tableEl, file, content.columnCount, content.rowCount);
-		const rowElements = Array.from(tableEl.querySelectorAll(":scope > tr"));
+		this.syncDomTableHeader(tableEl, content.hasHeaderRow);
+		const rowElements = this.getRowElements(tableEl);
 
 
 		for (const [rowIdx, row] of enumerate(content.rows)) {
 			const rowEl = rowElements[rowIdx];
-			const tds: HTMLTableCellElement[] = Array.from(rowEl.querySelectorAll(":scope > td"));
+			const tds = this.getCellElements(rowEl);
 			for (const [colIdx, col] of enumerate(row.cells)) {
 				const colEl = tds[colIdx];
-				const editorContainer = colEl.querySelector(':scope > div');
-				if (editorContainer == undefined) {
-					console.error(colEl);
-					throw new Error("No editor container for td in table");
-				}
-				const editor = editors.getEditorByElement(editorContainer);
-				if (editor == undefined) {
-					console.error(editorContainer);
-					throw new Error("No editor for container");
+				if (syncCellContents) {
+					this.setCellContent(view, colEl, file, col.content);
 				}
-				const cellContent = col.content;
-				const changeHandler = editor.getChangeHandler();
-				editor.setChangeHandler(undefined);
-				if (trimLines(cellContent).trim() != trimLines(editor.getContent()).trim()) {
-					editor.setContent(cellContent);
-				}
-				editor.setChangeHandler(changeHandler);
 
-				colEl.style.width = suggestWidth((colEl.querySelector(".cm-contentContainer") as HTMLElement).innerText, ".", colEl);
+				colEl.style.width = suggestWidth(col.content, ".", colEl);
 
 				new TableCellAttributes(colIdx, rowIdx, colIdx + rowIdx * content.columnCount).write(colEl);
+				TableCellAttributes.writeAlignment(colEl, content.columnAlignments[colIdx] ?? "default");
+				TableCellAttributes.writeSourceWidth(colEl, content.columnWidths[colIdx] ?? null);
+
+				this.setCellCovered(colEl, col.isCovered);
+				if (!col.isCovered) {
+					colEl.rowSpan = col.rowSpan;
+					colEl.colSpan = col.colSpan;
+				}
 			}
 		}
 
 		new TableAttributes(sourceLength, content.columnCount, content.rowCount).write(tableEl);
+		TableAttributes.writeLinePrefix(tableEl, content.linePrefix);
+		this.renderFormulas(view, tableEl, file, content);
+		this.renderSelection(tableEl);
 	}
 
-	static tableContentFromDOM(view: EditorView, tableElement: HTMLTableElement) {
-		const rows = [];
+	/**
+	 * Evaluates the table's formulas, showing their results in the cells without an editor.
+	 */
+	static renderFormulas(view: EditorView, tableEl: HTMLTableElement, file: TFile, content: TableContent) {
 		const [editors] = view.state.facet(nestedEditorsFacet);
-		for (const tr of Array.from(tableElement.querySelectorAll(":scope > tr"))) {
-			const cells = [];
-			for (const td of Array.from(tr.querySelectorAll(":scope > td"))) {
-				const containingDiv = td.querySelector(":scope > div");
-				if (containingDiv == null) {
-					throw new Error();
-				}
+		const evaluator = new FormulaEvaluator(content);
+		const rowElements = this.getRowElements(tableEl);
 
-				const editor = editors.getEditorByElement(containingDiv);
-				if (!editor) {
-					throw new Error();
+		for (const [rowIdx, row] of enumerate(content.rows)) {
+			const tds = this.getCellElements(rowElements[rowIdx]);
+			for (const [colIdx] of enumerate(row.cells)) {
+				const container = this.getCellContainer(tds[colIdx]);
+				const lazyCell = lazyCells.get(container);
+				if (!lazyCell) continue;
+
+				const result = evaluator.evaluate(rowIdx, colIdx);
+				if (JSON.stringify(result) == JSON.stringify(lazyCell.formulaResult)) continue;
+
+				lazyCell.formulaResult = result;
+				if (!editors.getEditorByElement(container)) {
+					this.renderPreview(view, container, file);
 				}
+			}
+		}
+	}
+
+	static tableContentFromDOM(view: EditorView, tableElement: HTMLTableElement) {
+		const rows = [];
+		const columnAlignments: (ColumnAlignment | null)[] = [];
+		const columnWidths: (number | null)[] = [];
+		for (const tr of this.getRowElements(tableElement)) {
+			const cells = [];
+			for (const [colIdx, td] of enumerate(this.getCellElements(tr))) {
+				// Cells added since the last sync have no alignment, so take it from any cell in the column.
+				columnAlignments[colIdx] = columnAlignments[colIdx] ?? TableCellAttributes.readAlignment(td);
+				columnWidths[colIdx] = columnWidths[colIdx] ?? TableCellAttributes.readSourceWidth(td);
 
-				const content = editor.getContent()
-				cells.push(new TableCell(content));
+				const content = this.getCellContent(view, td);
+				cells.push(this.isCoveredCell(td) ? TableCell.covered() : new TableCell(content, td.rowSpan, td.colSpan));
 			}
 			rows.push(new TableRow(cells));
 		}
-		return new TableContent(rows);
+		const hasHeaderRow = tableElement.querySelector(":scope > thead > tr") != null;
+		return new TableContent(rows, {
+			hasHeaderRow,
+			columnAlignments: columnAlignments.map((alignment) => alignment ?? "default"),
+			columnWidths,
+			linePrefix: TableAttributes.readLinePrefix(tableElement),
+		});
 	}
 
-	static flushDomToFile(view: EditorView, tableElement: HTMLTableElement) {
+	static flushDomToFile(view: EditorView, tableElement: HTMLTableElement, typing: { userEvent: string, newCell: boolean } | null = null) {
 		const newTable = this.tableContentFromDOM(view, tableElement);
-		const newTableRepr = tableContentToString(newTable);
+		const newTableRepr = serializeTable(newTable);
 
-		this.writeOverTable(view, tableElement, newTableRepr);
+		this.writeOverTable(view, tableElement, newTableRepr, {
+			fromDom: true,
+			userEvent: typing?.userEvent ?? null,
+			newCell: typing?.newCell ?? false,
+		});
 	}
 
-	static writeOverTable(view: EditorView, tableElement: HTMLTableElement, newContent: string) {
+	/**
+	 * Replaces the table's source, only changing the lines which differ.
+	 */
+	static writeOverTable(view: EditorView, tableElement: HTMLTableElement, newContent: string, edit: GridTableEdit = { fromDom: false, userEvent: null, newCell: false }) {
 		const from = view.posAtDOM(tableElement);
 		const currentContentLength = TableAttributes.read(tableElement).sourceLength;
 		const to = from + currentContentLength;
 
+		const changes = diffLines(view.state.doc.sliceString(from, to), newContent).map((change) => ({
+			from: from + change.from,
+			to: from + change.to,
+			insert: change.insert,
+		}));
+		if (changes.length == 0) return;
+
+		const annotations: Annotation<unknown>[] = [gridTableEdit.of(edit)];
+		if (edit.userEvent == null) {
+			annotations.push(isolateHistory.of("full"));
+		} else {
+			annotations.push(Transaction.userEvent.of(edit.userEvent));
+			if (edit.newCell) {
+				annotations.push(isolateHistory.of("before"));
+			}
+		}
+
 		view.dispatch({
-			changes: { from: from, to: to, insert: newContent }
+			changes,
+			annotations,
 		})
 	}
 
+	// Keyed by the cells' editor containers, which stay the same when cells are retagged.
+	static getCellContents(view: EditorView, tableElement: HTMLTableElement): Map<Element, string> {
+		const contents = new Map<Element, string>();
+		for (const tr of this.getRowElements(tableElement)) {
+			for (const td of this.getCellElements(tr)) {
+				contents.set(this.getCellContainer(td), this.getCellContent(view, td));
+			}
+		}
+
+		return contents;
+	}
+
+	/**
+	 * Focuses the first cell whose content isn't the same as before, with the cursor where it changed.
+	 */
+	static focusChangedCell(view: EditorView, tableElement: HTMLTableElement, contentsBefore: Map<Element, string>) {
+		for (const tr of this.getRowElements(tableElement)) {
+			for (const td of this.getCellElements(tr)) {
+				if (this.isCoveredCell(td)) continue;
+
+				const before = contentsBefore.get(this.getCellContainer(td));
+				const after = this.getCellContent(view, td);
+				if (before == undefined || before == after) continue;
+
+				// The document is in the middle of updating, so focusing has to wait.
+				window.setTimeout(() => {
+					if (!td.isConnected) return;
+
+					const editor = this.focusCell(view, td);
+					const cursor = Math.min(changeEnd(before, after), editor.editorView.state.doc.length);
+					editor.editorView.dispatch({ selection: { anchor: cursor, head: cursor } });
+				});
+				return;
+			}
+		}
+	}
+
 	destroy(dom: HTMLElement): void {
 		const table = dom.querySelector(":scope > table");
 		if (!table) return;
 
-		for (const tr of Array.from(table.querySelectorAll(":scope > tr"))) {
-			for (const td of Array.from(tr.querySelectorAll(":scope > td > div"))) {
-				const editor = this.editorStorage.getEditorByElement(td);
+		for (const tr of GridTableWidget.getRowElements(table)) {
+			for (const td of GridTableWidget.getCellElements(tr)) {
+				const editor = this.editorStorage.getEditorByElement(td.children[0]);
 				if (editor) {
 					this.editorStorage.delEditor(editor);
 				}
+				GridTableWidget.unloadPreview(td.children[0]);
 			}
 		}
+
+		// Editors of cells which got removed without freeing them.
+		const leaked = this.editorStorage.delEditorsOfTable(table);
+		if (leaked > 0) {
+			console.warn(`${this.editorStorage}: ${leaked} cell editor(s) outlived their cell in widget ${TableAttributes.readWidgetUid(table)}`);
+		}
 	}
 }
 
-function* accessIterator<T>(whole: (index: number) => T, startIndex: number, maxIndex: number) {
-	for (let index = startIndex; index < maxIndex; index++) {
-		yield whole(index);
-	}
+interface TableFieldValue {
+	// null until the document has been scanned for the first time.
+	tables: DetectedTable[] | null
+	isSourceMode: boolean
+	decorations: DecorationSet
 }
 
-const tableField = StateField.define<DecorationSet>({
-	create() {
-		return Decoration.none
-	},
-	update(oldState: DecorationSet, tr: Transaction): DecorationSet {
-		const mdInfo = tr.state.field(editorInfoField);
-		const fileRef = mdInfo.file;
+// Widgets of tables which haven't changed are reused, so their DOM isn't rebuilt.
+const widgetCache = new WeakMap<TableContent, GridTableWidget>();
+
+/**
+ * Tables in code blocks, math blocks, HTML blocks and front matter are left alone, unless
+ * a marker comment before the table says otherwise.
+ */
+function isTableRendered(state: EditorState, table: DetectedTable): boolean {
+	const marker = tableMarker(state.doc, table);
+	if (marker != null) {
+		return marker == "on";
+	}
 
-		const view = tr.state.field(editorEditorField);
-		const livePreview = view.state.field(editorLivePreviewField);
-		const isSourceMode = !livePreview;
+	return !isInSkippedBlock(state, table.from + table.content.linePrefix.length);
+}
 
-		const builder = new RangeSetBuilder<Decoration>();
-		let index = 1;
-		const potentialTables = [];
-		let scannedUpTo = 0;
-		const lines = [""];
-		for (const line of tr.state.doc.iterLines()) {
-			lines.push(line);
-			try {
-				SeparatorLine.tryParse(line);
-				potentialTables.push(index);
-			} catch (e) {
-				// Line wasn't a separator line, so it isn't the start of a potential table.
-			}
-			index++;
-		}
+function isInSkippedBlock(state: EditorState, pos: number): boolean {
+	let node = syntaxTree(state).resolveInner(pos, 1);
+	for (;;) {
+		if (isSkippedNode(node.name)) return true;
+		if (!node.parent) return false;
+		node = node.parent;
+	}
+}
 
-		for (const tableStartLine of potentialTables) {
+function tableDecorations(state: EditorState, tables: DetectedTable[], isSourceMode: boolean, file: TFile | null, origin: TableEditOrigin): DecorationSet {
+	const builder = new RangeSetBuilder<Decoration>();
+	for (const table of tables) {
+		if (!isTableRendered(state, table)) continue;
 
-			// If range is already part of previous table.
-			if (tableStartLine <= scannedUpTo) {
-				continue;
+		if (isSourceMode) {
+			builder.add(table.from, table.to, Decoration.mark({ class: 'obsidian-grid-tables-table-source' }))
+			for (const range of tableBorderRanges(table.source, table.content.linePrefix)) {
+				builder.add(table.from + range.from, table.from + range.to, Decoration.mark({ class: 'obsidian-grid-tables-table-source-border' }));
 			}
+			continue;
+		}
 
-			const parts = lookAheadForTableParts(
-				accessIterator(
-					(index) => lines[index],
-					tableStartLine,
-					lines.length
-				)
-			);
-
-			let table: TableContent | null = null;
-
-			try {
-				table = tryParseTableFromParsedParts(parts);
-			} catch (e) {
-				// Failed to parse table.
-				continue;
-			}
+		if (!file) {
+			throw new Error("No fileRef!");
+		}
+		let widget = widgetCache.get(table.content);
+		if (!widget || widget.file != file) {
+			widget = new GridTableWidget(table.content, file, table.source, origin);
+			widgetCache.set(table.content, widget);
+		}
+		builder.add(table.from, table.to, Decoration.replace({
+			widget,
+			block: true,
+		}));
+	}
 
-			const tableEndLine = tableStartLine + parts.length - 1;
-			const from = tr.state.doc.line(tableStartLine).from;
-			const to = tr.state.doc.line(tableEndLine).to;
+	return builder.finish();
+}
 
-			if (isSourceMode) {
-				builder.add(from, to, Decoration.mark({ class: 'obsidian-grid-tables-table-source' }))
-			} else {
-				if (!fileRef) {
-					throw new Error("No fileRef!");
-				}
-				builder.add(from, to, Decoration.replace({
-					widget: new GridTableWidget(table, fileRef, to - from),
-					block: true,
-				}));
-			}
+function editOrigin(tr: Transaction): TableEditOrigin {
+	if (tr.isUserEvent("undo") || tr.isUserEvent("redo")) {
+		return "history";
+	}
+
+	return tr.annotation(gridTableEdit)?.fromDom ? "cells" : "document";
+}
 
-			scannedUpTo = tableEndLine;
+const tableField = StateField.define<TableFieldValue>({
+	create() {
+		return { tables: null, isSourceMode: false, decorations: Decoration.none };
+	},
+	update(oldValue: TableFieldValue, tr: Transaction): TableFieldValue {
+		const mdInfo = tr.state.field(editorInfoField);
+		const fileRef = mdInfo.file;
+
+		const view = tr.state.field(editorEditorField);
+		const livePreview = view.state.field(editorLivePreviewField);
+		const isSourceMode = !livePreview;
+
+		// Only tables around the changes are parsed again.
+		let tables = oldValue.tables;
+		if (tables == null) {
+			tables = findTables(tr.state.doc, 1, tr.state.doc.lines, serializeOptions());
+		} else if (tr.docChanged) {
+			tables = updateTables(tables, tr.changes, tr.state.doc, serializeOptions());
+		} else if (isSourceMode == oldValue.isSourceMode && syntaxTree(tr.state) == syntaxTree(tr.startState)) {
+			// The syntax tree is parsed in the background, and can tell later that a table is in a code block.
+			return oldValue;
 		}
 
-		return builder.finish();
+		return { tables, isSourceMode, decorations: tableDecorations(tr.state, tables, isSourceMode, fileRef, editOrigin(tr)) };
 	},
-	provide(field: StateField<DecorationSet>): Extension {
-		return EditorView.decorations.from(field);
+	provide(field: StateField<TableFieldValue>): Extension {
+		return EditorView.decorations.from(field, (value) => value.decorations);
 	},
 });
 
-function renderTablesInMarkdown(element: HTMLElement, context: MarkdownPostProcessorContext): void {
-	if (globalPlugin == null) return;
+/**
+ * Aligns the borders of a table which got out of line by typing into it, once the cursor leaves it.
+ * Only in source mode, and like the linter, not for tables in skipped blocks or after an 'off' marker.
+ */
+const alignTablesOnLeave = EditorState.transactionFilter.of((tr): Transaction | readonly (Transaction | TransactionSpec)[] => {
+	if (!globalPlugin?.settings.alignTablesOnLeave) return tr;
+	if (!tr.selection || tr.isUserEvent("undo") || tr.isUserEvent("redo")) return tr;
+	if (tr.startState.field(editorLivePreviewField)) return tr;
 
-	const paragraphs = element.findAll("p");
-	for (const p of paragraphs) {
-		const originalText = context.getSectionInfo(p);
-		if (originalText == null) continue;
+	const lines = findFramedLines(tr.newDoc, tr.changes.mapPos(tr.startState.selection.main.head));
+	if (!lines) return tr;
 
-		const text = originalText.text.split("\n").slice(originalText.lineStart - 1, originalText.lineEnd + 1).join("\n").trimStart();
+	const marker = lines[0] > 1 ? parseTableMarker(tr.newDoc.line(lines[0] - 1).text) : null;
+	if (marker == "off" || (marker == null && isInSkippedBlock(tr.startState, tr.startState.selection.main.head))) return tr;
 
-		const parts = lookAheadForTableParts(text.split("\n"));
-		let table = null;
-		try {
-			table = tryParseTableFromParsedParts(parts)
-		} catch (e) {
-			// No table.
-			continue;
-		}
+	const from = tr.newDoc.line(lines[0]).from;
+	const to = tr.newDoc.line(lines[1]).to;
+	const head = tr.newSelection.main.head;
+	if (head >= from && head <= to) return tr;
 
-		const tableEl = document.createElement("table");
-		for (const row of table.rows) {
-			const tr = document.createElement("tr");
-			for (const cell of row.cells) {
-				const td = document.createElement("td");
-				MarkdownRenderer.render(globalPlugin.app, cell.content, td, context.sourcePath, globalPlugin)
-				tr.appendChild(td);
-			}
-			tableEl.appendChild(tr);
+	const parsed = parseTableSource(tr.newDoc.sliceString(from, to).split("\n"), serializeOptions());
+	if (!parsed) return tr;
+
+	const [table, isAligned] = parsed;
+	if (isAligned) return tr;
+
+	return [tr, { changes: { from, to, insert: serializeTable(table) }, sequential: true }];
+});
+
+/**
+ * The broken table's lines, repaired and serialized. Null if it can't be repaired.
+ */
+function repairBrokenTable(doc: Text, table: BrokenTable): string | null {
+	const repaired = repairTable(doc.sliceString(doc.line(table.firstLine).from, doc.line(table.lastLine).to).split("\n"), serializeOptions());
+	return repaired && serializeTable(repaired);
+}
+
+/**
+ * Points out what keeps tables which almost parse from being tables, in source mode.
+ */
+const tableLinter = linter((view: EditorView): Diagnostic[] => {
+	const state = view.state;
+	if (state.field(editorLivePreviewField)) return [];
+
+	const diagnostics: Diagnostic[] = [];
+	for (const table of findBrokenTables(state.doc)) {
+		const firstLine = state.doc.line(table.firstLine);
+		const marker = table.firstLine > 1 ? parseTableMarker(state.doc.line(table.firstLine - 1).text) : null;
+		if (marker == "off" || (marker == null && isInSkippedBlock(state, firstLine.from + firstLine.text.indexOf("+")))) continue;
+
+		for (const diagnostic of table.diagnostics) {
+			const line = state.doc.line(table.firstLine + diagnostic.line);
+			diagnostics.push({
+				from: line.from + diagnostic.from,
+				to: line.from + diagnostic.to,
+				severity: "warning",
+				source: "Grid Tables",
+				message: diagnostic.reason,
+				actions: [{
+					name: "Repair table",
+					apply(view: EditorView, from: number) {
+						const lineNumber = view.state.doc.lineAt(from).number;
+						const current = findBrokenTableAt(view.state.doc, lineNumber);
+						const repaired = current && repairBrokenTable(view.state.doc, current);
+						if (!current || !repaired) {
+							new Notice("The table can't be repaired! Tables with merged cells have to be repaired by hand.");
+							return;
+						}
+						view.dispatch({ changes: { from: view.state.doc.line(current.firstLine).from, to: view.state.doc.line(current.lastLine).to, insert: repaired } });
+					},
+				}],
+			});
 		}
+	}
 
-		const leftoverText = text.split("\n").slice(parts.length).join("\n");
-		const leftover = document.createElement("div");
-		MarkdownRenderer.render(globalPlugin.app, leftoverText, leftover, context.sourcePath, globalPlugin);
-		p.replaceWith(tableEl);
-		for (const child of Array.from(leftover.children)) {
-			tableEl.parentElement?.appendChild(child);
+	return diagnostics;
+});
+
+/**
+ * Renders cell contents the way the reading view does, for exporting tables as HTML.
+ */
+function cellRenderer(sourcePath: string): CellRenderer {
+	return async (content: string) => {
+		if (globalPlugin == null) return content;
+
+		const el = document.createElement("div");
+		const component = new Component();
+		component.load();
+		try {
+			await MarkdownRenderer.render(globalPlugin.app, content, el, sourcePath, component);
+			return el.innerHTML;
+		} finally {
+			component.unload();
 		}
+	};
+}
+
+function renderFormulaResult(el: HTMLElement, result: FormulaResult) {
+	const span = el.createSpan({ cls: EDITOR_TABLE_FORMULA_CLASS, text: formatFormulaResult(result) });
+	if ("error" in result) {
+		span.addClass(EDITOR_TABLE_FORMULA_ERROR_CLASS);
+		span.title = result.message;
 	}
 }
 
+function renderTablesInMarkdown(element: HTMLElement, context: MarkdownPostProcessorContext): void {
+	if (globalPlugin == null) return;
+	const plugin = globalPlugin;
+
+	const section = context.getSectionInfo(element);
+	if (section == null) return;
+
+	// Unloads what rendering the cells loaded when the reading view lets go of the element.
+	const child = new MarkdownRenderChild(element);
+	context.addChild(child);
+
+	const lines = section.text.split("\n").slice(section.lineStart, section.lineEnd + 1);
+	renderTablesInSection(element, lines, (table) => {
+		const formulas = new FormulaEvaluator(table);
+		return renderTable(table, (td, content, row, col) => {
+			const formulaResult = formulas.evaluate(row, col);
+			if (formulaResult) {
+				renderFormulaResult(td, formulaResult);
+			} else {
+				MarkdownRenderer.render(plugin.app, content, td, context.sourcePath, child).catch((e) => {
+					console.error("Couldn't render the cell's content:", e);
+					td.setText(content);
+				});
+			}
+		});
+	}, serializeOptions());
+}
+
 let globalPlugin: GridTablePlugin | null = null;
 
+/**
+ * The editor's document and the line of its cursor (1-based), from the editor's state rather
+ * than a copy of its text.
+ */
+function documentAtCursor(editor: Editor): [Text, number] {
+	// @ts-expect-error cm is a hidden field holding the editor's EditorView
+	const view: EditorView | undefined = editor.cm;
+	const doc = view?.state.doc ?? Text.of(editor.getValue().split("\n"));
+	return [doc, editor.getCursor().line + 1];
+}
+
+/**
+ * Pastes tabular values as a new grid table, or into the table's cells if the editor is a cell editor.
+ */
+function pasteTable(editor: Editor, values: string[][]) {
+	// @ts-expect-error Accessing editorComponent which is a hidden field
+	const editorComponent = editor.editorComponent;
+
+	if (editorComponent?.isCellEditor === true) {
+		const cellEl = editorComponent.editorEl.parentElement.parentElement;
+		TableCommands.pasteIntoCells(cellEl, editorComponent.parentEditor, values);
+	} else {
+		editor.replaceSelection(serializeTable(delimitedToTableContent(values)) + "\n");
+	}
+}
+
+function parseCopiedCells(clipboardData: DataTransfer): TableContent | null {
+	const copied = clipboardData.getData(GRID_TABLE_CLIPBOARD_TYPE);
+	if (!copied) return null;
+
+	try {
+		return tryParseTableFromParsedParts(lookAheadForTableParts(copied.split("\n")), "", serializeOptions());
+	} catch (e) {
+		console.debug("Couldn't parse the copied cells:", e);
+		return null;
+	}
+}
+
+function handlePaste(evt: ClipboardEvent, editor: Editor, info: MarkdownView | MarkdownFileInfo) {
+	if (evt.defaultPrevented || !evt.clipboardData) return;
+
+	// Only take over pastes from spreadsheets, which put an HTML table next to the tab-separated text.
+	// Anything else can still be pasted as a table with the "Paste as Grid Table" command.
+	const html = evt.clipboardData.getData("text/html");
+	const text = evt.clipboardData.getData("text/plain");
+
+	// @ts-expect-error Accessing editorComponent which is a hidden field
+	const isCellEditor = editor.editorComponent?.isCellEditor === true;
+
+	// Cells copied from a grid table. Outside of tables they're pasted as a table of their own.
+	const copiedCells = parseCopiedCells(evt.clipboardData);
+	if (copiedCells) {
+		evt.preventDefault();
+		if (isCellEditor) {
+			pasteTable(editor, copiedCells.rows.map((row) => row.cells.map((cell) => cell.content)));
+		} else {
+			editor.replaceSelection(serializeTable(copiedCells) + "\n");
+		}
+		return;
+	}
+
+	// With cells selected, whatever gets pasted goes into them.
+	// @ts-expect-error Accessing editorComponent which is a hidden field
+	const tableElement = isCellEditor ? editor.editorComponent.editorEl.closest("table") : null;
+	if (tableElement && GridTableWidget.getSelectedRange(tableElement)) {
+		evt.preventDefault();
+		pasteTable(editor, detectDelimiter(text) == "\t" ? parseDelimited(text, "\t") : [[text]]);
+		return;
+	}
+
+	if (!html.includes("<table") || detectDelimiter(text) != "\t") return;
+
+	evt.preventDefault();
+	pasteTable(editor, parseDelimited(text, "\t"));
+}
+
 function genCellCommand(callbackIfInCell: (editor: Editor, view: MarkdownView, parentEditor: EditorView) => void) {
 	return function (checking: boolean, editor: Editor, view: MarkdownView) {
 		// @ts-expect-error Accessing editorComponent which is a hidden field
@@ -1082,12 +2464,17 @@ function genCellCommand(callbackIfInCell: (editor: Editor, view: MarkdownView, p
 
 export default class GridTablePlugin extends Plugin {
 	settings: GridTablePluginSettings;
+	editorStorage: ObsidianEditorStorage;
 
 	async onload() {
 		globalPlugin = this;
 		await this.loadSettings();
-		this.registerEditorExtension(nestedEditorsFacet.of(new ObsidianEditorStorage(this)))
+		this.editorStorage = new ObsidianEditorStorage(this);
+		this.registerEditorExtension(nestedEditorsFacet.of(this.editorStorage))
+		this.registerInterval(window.setInterval(() => this.editorStorage.checkForLeaks(), EDITOR_LEAK_CHECK_INTERVAL_MS));
 		this.registerEditorExtension(tableField);
+		this.registerEditorExtension(alignTablesOnLeave);
+		this.registerEditorExtension([tableLinter, lintGutter()]);
 		this.app.workspace.getActiveViewOfType(MarkdownView)
 		this.registerEditorExtension(Prec.lowest(
 			EditorView.focusChangeEffect.of((state, focusing) => {
@@ -1172,7 +2559,7 @@ export default class GridTablePlugin extends Plugin {
 			editorCheckCallback: genCellCommand((editor: Editor, view: MarkdownView, parentEditor: EditorView) => {
 				// @ts-expect-error editorComponent is a hidden field
 				const cellEl = editor.editorComponent.editorEl.parentElement.parentElement;
-				const tableEl = cellEl.parentElement.parentElement;
+				const tableEl = cellEl.closest("table");
 				TableCommands.deleteTable(tableEl, parentEditor);
 			}),
 		});
@@ -1228,6 +2615,281 @@ export default class GridTablePlugin extends Plugin {
 				modifiers: ['Ctrl', 'Shift', 'Alt']
 			}]
 		});
+		this.addCommand({
+			id: 'grid-table-merge-cell-right',
+			name: "Merge Cell Right",
+			editorCheckCallback: genCellCommand((editor: Editor, view: MarkdownView, parentEditor: EditorView) => {
+				// @ts-expect-error editorComponent is a hidden field
+				const cellEl = editor.editorComponent.editorEl.parentElement.parentElement;
+				TableCommands.mergeCellRight(cellEl, parentEditor);
+			}),
+		});
+		this.addCommand({
+			id: 'grid-table-merge-cell-down',
+			name: "Merge Cell Down",
+			editorCheckCallback: genCellCommand((editor: Editor, view: MarkdownView, parentEditor: EditorView) => {
+				// @ts-expect-error editorComponent is a hidden field
+				const cellEl = editor.editorComponent.editorEl.parentElement.parentElement;
+				TableCommands.mergeCellDown(cellEl, parentEditor);
+			}),
+		});
+		this.addCommand({
+			id: 'grid-table-split-cell',
+			name: "Split Cell",
+			editorCheckCallback: genCellCommand((editor: Editor, view: MarkdownView, parentEditor: EditorView) => {
+				// @ts-expect-error editorComponent is a hidden field
+				const cellEl = editor.editorComponent.editorEl.parentElement.parentElement;
+				TableCommands.splitCell(cellEl, parentEditor);
+			}),
+		});
+		this.addCommand({
+			id: 'grid-table-align-col-left',
+			name: "Align Column Left",
+			editorCheckCallback: genCellCommand((editor: Editor, view: MarkdownView, parentEditor: EditorView) => {
+				// @ts-expect-error editorComponent is a hidden field
+				const cellEl = editor.editorComponent.editorEl.parentElement.parentElement;
+				TableCommands.alignColumn(cellEl, parentEditor, "left");
+			}),
+		});
+		this.addCommand({
+			id: 'grid-table-align-col-center',
+			name: "Align Column Center",
+			editorCheckCallback: genCellCommand((editor: Editor, view: MarkdownView, parentEditor: EditorView) => {
+				// @ts-expect-error editorComponent is a hidden field
+				const cellEl = editor.editorComponent.editorEl.parentElement.parentElement;
+				TableCommands.alignColumn(cellEl, parentEditor, "center");
+			}),
+		});
+		this.addCommand({
+			id: 'grid-table-align-col-right',
+			name: "Align Column Right",
+			editorCheckCallback: genCellCommand((editor: Editor, view: MarkdownView, parentEditor: EditorView) => {
+				// @ts-expect-error editorComponent is a hidden field
+				const cellEl = editor.editorComponent.editorEl.parentElement.parentElement;
+				TableCommands.alignColumn(cellEl, parentEditor, "right");
+			}),
+		});
+		this.addCommand({
+			id: 'grid-table-normalize-widths',
+			name: "Normalize Widths",
+			editorCheckCallback: genCellCommand((editor: Editor, view: MarkdownView, parentEditor: EditorView) => {
+				// @ts-expect-error editorComponent is a hidden field
+				const cellEl = editor.editorComponent.editorEl.parentElement.parentElement;
+				TableCommands.normalizeWidths(cellEl, parentEditor);
+			}),
+		});
+		this.addCommand({
+			id: 'grid-table-sort-ascending',
+			name: "Sort Rows by This Column (Ascending)",
+			editorCheckCallback: genCellCommand((editor: Editor, view: MarkdownView, parentEditor: EditorView) => {
+				// @ts-expect-error editorComponent is a hidden field
+				const cellEl = editor.editorComponent.editorEl.parentElement.parentElement;
+				TableCommands.sortByColumn(cellEl, parentEditor, false);
+			}),
+		});
+		this.addCommand({
+			id: 'grid-table-sort-descending',
+			name: "Sort Rows by This Column (Descending)",
+			editorCheckCallback: genCellCommand((editor: Editor, view: MarkdownView, parentEditor: EditorView) => {
+				// @ts-expect-error editorComponent is a hidden field
+				const cellEl = editor.editorComponent.editorEl.parentElement.parentElement;
+				TableCommands.sortByColumn(cellEl, parentEditor, true);
+			}),
+		});
+		this.addCommand({
+			id: 'grid-table-transpose',
+			name: "Transpose Table",
+			editorCheckCallback: genCellCommand((editor: Editor, view: MarkdownView, parentEditor: EditorView) => {
+				// @ts-expect-error editorComponent is a hidden field
+				const cellEl = editor.editorComponent.editorEl.parentElement.parentElement;
+				TableCommands.transpose(cellEl, parentEditor);
+			}),
+		});
+		this.addCommand({
+			id: 'grid-table-convert-to-pipe-table',
+			name: "Convert Grid Table to Pipe Table",
+			editorCheckCallback: genCellCommand((editor: Editor, view: MarkdownView, parentEditor: EditorView) => {
+				// @ts-expect-error editorComponent is a hidden field
+				const cellEl = editor.editorComponent.editorEl.parentElement.parentElement;
+				TableCommands.convertToPipeTable(cellEl, parentEditor);
+			}),
+		});
+		this.addCommand({
+			id: 'grid-table-convert-to-pipe-table-join-lines',
+			name: "Convert Grid Table to Pipe Table (Join Lines With <br>)",
+			editorCheckCallback: genCellCommand((editor: Editor, view: MarkdownView, parentEditor: EditorView) => {
+				// @ts-expect-error editorComponent is a hidden field
+				const cellEl = editor.editorComponent.editorEl.parentElement.parentElement;
+				TableCommands.convertToPipeTable(cellEl, parentEditor, { joinLinesWith: "<br>" });
+			}),
+		});
+		this.addCommand({
+			id: 'grid-table-format-at-cursor',
+			name: "Format Table at Cursor",
+			editorCheckCallback(checking, editor) {
+				const [doc, cursorLine] = documentAtCursor(editor);
+				const lines = findFramedLines(doc, doc.line(cursorLine).from);
+				if (lines == null) {
+					return false;
+				}
+				if (checking) {
+					return true;
+				}
+
+				const [first, last] = lines;
+				const parsed = parseTableSource(doc.sliceString(doc.line(first).from, doc.line(last).to).split("\n"), serializeOptions());
+				if (parsed == null) {
+					new Notice("The table at the cursor can't be read! Tables with merged cells can only be formatted while their borders line up.");
+					return;
+				}
+
+				editor.replaceRange(
+					serializeTable(parsed[0]),
+					{ line: first - 1, ch: 0 },
+					{ line: last - 1, ch: doc.line(last).length },
+				);
+			}
+		})
+		this.addCommand({
+			id: 'grid-table-repair',
+			name: "Repair Table at Cursor",
+			editorCheckCallback(checking, editor) {
+				const [doc, cursorLine] = documentAtCursor(editor);
+				const table = findBrokenTableAt(doc, cursorLine);
+				if (table == null) {
+					return false;
+				}
+				if (checking) {
+					return true;
+				}
+
+				const repaired = repairBrokenTable(doc, table);
+				if (repaired == null) {
+					new Notice("The table at the cursor can't be repaired! Tables with merged cells have to be repaired by hand.");
+					return;
+				}
+
+				editor.replaceRange(
+					repaired,
+					{ line: table.firstLine - 1, ch: 0 },
+					{ line: table.lastLine - 1, ch: doc.line(table.lastLine).length },
+				);
+			}
+		})
+		this.addCommand({
+			id: 'grid-table-convert-pipe-table',
+			name: "Convert Pipe Table Under Cursor to Grid Table",
+			editorCheckCallback(checking, editor, ctx) {
+				const lines = editor.getValue().split("\n");
+				const range = findPipeTable(lines, editor.getCursor().line);
+				if (range == null) {
+					return false;
+				}
+				if (checking) {
+					return true;
+				}
+
+				const [first, last] = range;
+				let table;
+				try {
+					table = tryParsePipeTable(lines.slice(first, last + 1));
+				} catch (e) {
+					new Notice(e.message);
+					return;
+				}
+
+				editor.replaceRange(
+					serializeTable(table),
+					{ line: first, ch: 0 },
+					{ line: last, ch: lines[last].length },
+				);
+			}
+		})
+		this.addCommand({
+			id: 'grid-table-copy-as-csv',
+			name: "Copy Table as CSV",
+			editorCheckCallback: genCellCommand((editor: Editor, view: MarkdownView, parentEditor: EditorView) => {
+				// @ts-expect-error editorComponent is a hidden field
+				const cellEl = editor.editorComponent.editorEl.parentElement.parentElement;
+				if (!view.file) return;
+				TableCommands.copyTableAs(cellEl, parentEditor, view.file, "csv");
+			}),
+		});
+		this.addCommand({
+			id: 'grid-table-copy-as-tsv',
+			name: "Copy Table as TSV",
+			editorCheckCallback: genCellCommand((editor: Editor, view: MarkdownView, parentEditor: EditorView) => {
+				// @ts-expect-error editorComponent is a hidden field
+				const cellEl = editor.editorComponent.editorEl.parentElement.parentElement;
+				if (!view.file) return;
+				TableCommands.copyTableAs(cellEl, parentEditor, view.file, "tsv");
+			}),
+		});
+		this.addCommand({
+			id: 'grid-table-copy-as-html',
+			name: "Copy Table as HTML",
+			editorCheckCallback: genCellCommand((editor: Editor, view: MarkdownView, parentEditor: EditorView) => {
+				// @ts-expect-error editorComponent is a hidden field
+				const cellEl = editor.editorComponent.editorEl.parentElement.parentElement;
+				if (!view.file) return;
+				TableCommands.copyTableAs(cellEl, parentEditor, view.file, "html");
+			}),
+		});
+		this.addCommand({
+			id: 'grid-table-copy-as-markdown',
+			name: "Copy Table as Markdown",
+			editorCheckCallback: genCellCommand((editor: Editor, view: MarkdownView, parentEditor: EditorView) => {
+				// @ts-expect-error editorComponent is a hidden field
+				const cellEl = editor.editorComponent.editorEl.parentElement.parentElement;
+				if (!view.file) return;
+				TableCommands.copyTableAs(cellEl, parentEditor, view.file, "markdown");
+			}),
+		});
+		this.addCommand({
+			id: 'grid-table-export-to-file',
+			name: "Export Table to File",
+			editorCheckCallback: genCellCommand((editor: Editor, view: MarkdownView, parentEditor: EditorView) => {
+				// @ts-expect-error editorComponent is a hidden field
+				const cellEl = editor.editorComponent.editorEl.parentElement.parentElement;
+				if (!view.file) return;
+				TableCommands.exportTableToFile(cellEl, parentEditor, view.file);
+			}),
+		});
+		this.addCommand({
+			id: 'grid-table-paste-as-grid-table',
+			name: "Paste as Grid Table",
+			editorCallback: async (editor, ctx) => {
+				let text;
+				try {
+					text = await navigator.clipboard.readText();
+				} catch (e) {
+					new Notice(`Couldn't read the clipboard: ${e.message}`);
+					return;
+				}
+				const delimiter = detectDelimiter(text);
+				if (delimiter == null) {
+					new Notice("The clipboard doesn't contain CSV or tab-separated data!");
+					return;
+				}
+
+				pasteTable(editor, parseDelimited(text, delimiter));
+			}
+		})
+		this.addCommand({
+			id: 'grid-table-reformat-vault',
+			name: "Reformat Tables in Vault",
+			callback: () => {
+				new ReformatTablesModal(this.app).open();
+			}
+		})
+		this.addCommand({
+			id: 'grid-table-show-editor-stats',
+			name: "Show Cell Editor Stats",
+			callback: () => {
+				this.editorStorage.checkForLeaks();
+				new Notice(this.editorStorage.describe());
+			}
+		})
 		this.addCommand({
 			id: 'grid-table-insert-table',
 			name: "Insert Table",
@@ -1238,7 +2900,7 @@ export default class GridTablePlugin extends Plugin {
 						new TableRow([new TableCell(""), new TableCell("")]),
 					]
 				);
-				const newTableContent = tableContentToString(newTable);
+				const newTableContent = serializeTable(newTable);
 				editor.transaction({
 					changes: [
 						{
@@ -1252,6 +2914,7 @@ export default class GridTablePlugin extends Plugin {
 			}
 		})
 		this.registerMarkdownPostProcessor(renderTablesInMarkdown)
+		this.registerEvent(this.app.workspace.on("editor-paste", handlePaste));
 
 
 		// This adds a settings tab so the user can configure various aspects of the plugin
@@ -1259,7 +2922,7 @@ export default class GridTablePlugin extends Plugin {
 	}
 
 	onunload() {
-
+		this.editorStorage.clearPool();
 	}
 
 	async loadSettings() {
@@ -1271,6 +2934,149 @@ export default class GridTablePlugin extends Plugin {
 	}
 }
 
+class ExportFormatModal extends FuzzySuggestModal<ExportFormat> {
+	onChoose: (format: ExportFormat) => void;
+
+	constructor(app: App, onChoose: (format: ExportFormat) => void) {
+		super(app);
+		this.onChoose = onChoose;
+		this.setPlaceholder("Export table as...");
+	}
+
+	getItems(): ExportFormat[] {
+		return EXPORT_FORMATS.slice();
+	}
+
+	getItemText(format: ExportFormat): string {
+		return EXPORT_FORMAT_NAMES[format];
+	}
+
+	onChooseItem(format: ExportFormat) {
+		this.onChoose(format);
+	}
+}
+
+interface PlannedReformat {
+	file: TFile
+	gridTables: number
+	pipeTables: number
+	changedTables: number
+}
+
+/**
+ * Reformats the tables of every Markdown file in a folder, after showing which files
+ * would change.
+ */
+class ReformatTablesModal extends Modal {
+	folder = "/";
+	options: ReformatOptions = {
+		convertPipeTables: true,
+		normalizeGridTables: false,
+	};
+	previewEl: HTMLElement;
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		this.titleEl.setText("Reformat tables");
+
+		const folders = this.app.vault.getAllLoadedFiles()
+			.filter((f): f is TFolder => f instanceof TFolder)
+			.map((f) => f.path)
+			.sort();
+		new Setting(contentEl)
+			.setName("Folder")
+			.addDropdown((dropdown) => {
+				for (const folder of folders) {
+					dropdown.addOption(folder, folder == "/" ? "Entire vault" : folder);
+				}
+				dropdown.setValue(this.folder).onChange((value) => {
+					this.folder = value;
+					this.clearPreview();
+				});
+			});
+		new Setting(contentEl)
+			.setName("Convert pipe tables")
+			.setDesc("Rewrite Markdown pipe tables as grid tables.")
+			.addToggle((toggle) => toggle.setValue(this.options.convertPipeTables).onChange((value) => {
+				this.options.convertPipeTables = value;
+				this.clearPreview();
+			}));
+		new Setting(contentEl)
+			.setName("Normalize grid tables")
+			.setDesc("Rewrite grid tables so that every column fits its content.")
+			.addToggle((toggle) => toggle.setValue(this.options.normalizeGridTables).onChange((value) => {
+				this.options.normalizeGridTables = value;
+				this.clearPreview();
+			}));
+		new Setting(contentEl)
+			.addButton((button) => button.setButtonText("Preview").onClick(() => this.preview()));
+
+		this.previewEl = contentEl.createDiv();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	clearPreview() {
+		this.previewEl.empty();
+	}
+
+	get files(): TFile[] {
+		return this.app.vault.getMarkdownFiles()
+			.filter((file) => this.folder == "/" || file.path.startsWith(`${this.folder}/`));
+	}
+
+	reformatOptions(): ReformatOptions {
+		return { ...this.options, serializeOptions: serializeOptions() };
+	}
+
+	async preview() {
+		this.clearPreview();
+		this.previewEl.createEl("p", { text: "Scanning..." });
+
+		const planned: PlannedReformat[] = [];
+		for (const file of this.files) {
+			const result = reformatTables(await this.app.vault.cachedRead(file), this.reformatOptions());
+			if (result.gridTables + result.pipeTables > 0) {
+				planned.push({ file, ...result });
+			}
+		}
+
+		this.clearPreview();
+		const changed = planned.filter((p) => p.changedTables > 0);
+		this.previewEl.createEl("p", {
+			text: `Found tables in ${planned.length} files, ${changed.length} of which would change.`,
+		});
+
+		const list = this.previewEl.createEl("ul");
+		for (const p of planned) {
+			list.createEl("li", {
+				text: `${p.file.path}: ${p.gridTables} grid tables, ${p.pipeTables} pipe tables, ${p.changedTables} to change`,
+			});
+		}
+
+		new Setting(this.previewEl)
+			.addButton((button) => button
+				.setButtonText(`Apply to ${changed.length} files`)
+				.setCta()
+				.setDisabled(changed.length == 0)
+				.onClick(() => this.apply(changed.map((p) => p.file))));
+	}
+
+	async apply(files: TFile[]) {
+		const options = this.reformatOptions();
+		for (const file of files) {
+			await this.app.vault.process(file, (data) => reformatTables(data, options).text);
+		}
+
+		new Notice(`Reformatted tables in ${files.length} files.`);
+		this.close();
+	}
+}
+
 class GridTableSettingsTab extends PluginSettingTab {
 	plugin: GridTablePlugin;
 
@@ -1286,7 +3092,28 @@ class GridTableSettingsTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setHeading()
-			.setName("Grid Tables")
-			.setDesc("No settings yet! Soon™");
+			.setName("Grid Tables");
+
+		new Setting(containerEl)
+			.setName("Maximum column width")
+			.setDesc("Cell lines wider than this are wrapped at spaces when writing tables. Leave empty for no limit.")
+			.addText((text) => text
+				.setPlaceholder("No limit")
+				.setValue(this.plugin.settings.maxColumnWidth ? this.plugin.settings.maxColumnWidth.toString() : "")
+				.onChange(async (value) => {
+					const width = parseInt(value);
+					this.plugin.settings.maxColumnWidth = isNaN(width) || width < 1 ? 0 : width;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName("Align tables when leaving them")
+			.setDesc("When the cursor leaves a table whose borders got out of line by typing into it, the table is written again with aligned borders.")
+			.addToggle((toggle) => toggle
+				.setValue(this.plugin.settings.alignTablesOnLeave)
+				.onChange(async (value) => {
+					this.plugin.settings.alignTablesOnLeave = value;
+					await this.plugin.saveSettings();
+				}));
 	}
 }
@@ -0,0 +1,136 @@
+import { TableContent, TableRow } from "./TableData";
+
+interface CellPosition {
+    row: number
+    col: number
+}
+
+// A rectangle of cells, all bounds inclusive.
+interface CellRange {
+    top: number
+    left: number
+    bottom: number
+    right: number
+}
+
+function rangeBetween(anchor: CellPosition, head: CellPosition): CellRange {
+    return {
+        top: Math.min(anchor.row, head.row),
+        left: Math.min(anchor.col, head.col),
+        bottom: Math.max(anchor.row, head.row),
+        right: Math.max(anchor.col, head.col),
+    };
+}
+
+function rangeContains(range: CellRange, row: number, col: number): boolean {
+    return row >= range.top && row <= range.bottom && col >= range.left && col <= range.right;
+}
+
+function rangePositions(range: CellRange): CellPosition[] {
+    const positions = [];
+    for (let row = range.top; row <= range.bottom; row++) {
+        for (let col = range.left; col <= range.right; col++) {
+            positions.push({ row, col });
+        }
+    }
+
+    return positions;
+}
+
+/**
+ * The range taken up by the (possibly merged) cell covering the position.
+ */
+function spanAt(table: TableContent, row: number, col: number): CellRange {
+    const [originRow, originCol] = table.findSpanOrigin(row, col);
+    const origin = table.getCell(originRow, originCol);
+
+    return {
+        top: originRow,
+        left: originCol,
+        bottom: originRow + origin.rowSpan - 1,
+        right: originCol + origin.colSpan - 1,
+    };
+}
+
+/**
+ * Grows the range until it doesn't cut through any merged cells.
+ */
+function expandToSpans(range: CellRange, table: TableContent): CellRange {
+    let expanded = { ...range };
+    let changed = true;
+    while (changed) {
+        changed = false;
+        for (const { row, col } of rangePositions(expanded)) {
+            const span = spanAt(table, row, col);
+            if (span.top < expanded.top || span.left < expanded.left || span.bottom > expanded.bottom || span.right > expanded.right) {
+                expanded = {
+                    top: Math.min(span.top, expanded.top),
+                    left: Math.min(span.left, expanded.left),
+                    bottom: Math.max(span.bottom, expanded.bottom),
+                    right: Math.max(span.right, expanded.right),
+                };
+                changed = true;
+                break;
+            }
+        }
+    }
+
+    return expanded;
+}
+
+/**
+ * Moves the end of a selection to the next cell in the direction, stepping over merged cells.
+ * Stays in place at the border of the table.
+ */
+function moveHead(head: CellPosition, rowDelta: number, colDelta: number, table: TableContent): CellPosition {
+    const span = spanAt(table, head.row, head.col);
+    let row = head.row;
+    let col = head.col;
+    if (rowDelta > 0) row = span.bottom + 1;
+    if (rowDelta < 0) row = span.top - 1;
+    if (colDelta > 0) col = span.right + 1;
+    if (colDelta < 0) col = span.left - 1;
+
+    return {
+        row: Math.min(Math.max(row, 0), table.rowCount - 1),
+        col: Math.min(Math.max(col, 0), table.columnCount - 1),
+    };
+}
+
+/**
+ * The contents of the cells in the range. Cells hidden under a merged cell are empty.
+ */
+function rangeValues(table: TableContent, range: CellRange): string[][] {
+    return table.rows.slice(range.top, range.bottom + 1)
+        .map((row) => row.cells.slice(range.left, range.right + 1).map((cell) => cell.content));
+}
+
+/**
+ * The cells in the range as a table of their own, keeping their merged cells and column formatting.
+ * The range must not cut through any merged cells (see expandToSpans).
+ */
+function rangeTable(table: TableContent, range: CellRange): TableContent {
+    const rows = table.rows.slice(range.top, range.bottom + 1)
+        .map((row) => new TableRow(row.cells.slice(range.left, range.right + 1)));
+
+    return new TableContent(rows, {
+        hasHeaderRow: table.hasHeaderRow && range.top == 0,
+        columnAlignments: table.columnAlignments.slice(range.left, range.right + 1),
+        columnWidths: table.columnWidths.slice(range.left, range.right + 1),
+    });
+}
+
+export type {
+    CellPosition,
+    CellRange,
+}
+
+export {
+    rangeBetween,
+    rangeContains,
+    rangePositions,
+    expandToSpans,
+    moveHead,
+    rangeValues,
+    rangeTable,
+}
@@ -0,0 +1,107 @@
+import { TableCell, TableContent, TableRow } from "./TableData";
+
+/**
+ * Parses CSV-style text: fields can be quoted with '"' to contain the delimiter, line breaks
+ * or '""' (a literal quote). Spreadsheets use the same format with tabs for their clipboard.
+ */
+function parseDelimited(text: string, delimiter: string): string[][] {
+    text = text.replace(/\r\n?/g, "\n");
+    if (text.endsWith("\n")) {
+        text = text.substring(0, text.length - 1);
+    }
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let inQuotes = false;
+    let atFieldStart = true;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (inQuotes) {
+            if (char == '"' && text[i + 1] == '"') {
+                field += '"';
+                i++;
+            } else if (char == '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+            continue;
+        }
+
+        if (char == '"' && atFieldStart) {
+            inQuotes = true;
+            atFieldStart = false;
+        } else if (char == delimiter) {
+            row.push(field);
+            field = "";
+            atFieldStart = true;
+        } else if (char == "\n") {
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = "";
+            atFieldStart = true;
+        } else {
+            field += char;
+            atFieldStart = false;
+        }
+    }
+    row.push(field);
+    rows.push(row);
+
+    return rows;
+}
+
+function isRectangular(rows: string[][]): boolean {
+    return rows.length > 0 && rows[0].length > 1 && rows.every((row) => row.length == rows[0].length);
+}
+
+/**
+ * Guesses whether text is tab- or comma-separated. Every row must have the same number of
+ * fields (at least two), and since commas are common in prose, CSV needs at least two rows.
+ * Returns null if the text doesn't look like either.
+ */
+function detectDelimiter(text: string): string | null {
+    if (isRectangular(parseDelimited(text, "\t"))) {
+        return "\t";
+    }
+
+    const csvRows = parseDelimited(text, ",");
+    if (csvRows.length > 1 && isRectangular(csvRows)) {
+        return ",";
+    }
+
+    return null;
+}
+
+function delimitedToTableContent(rows: string[][]): TableContent {
+    const columnCount = Math.max(...rows.map((row) => row.length));
+    return new TableContent(rows.map((row) => new TableRow(
+        Array.from({ length: columnCount }, (_, i) => new TableCell(row[i] ?? ""))
+    )));
+}
+
+function quoteField(field: string, delimiter: string): string {
+    if (field.includes(delimiter) || field.includes('"') || field.includes("\n") || field.includes("\r")) {
+        return `"${field.replace(/"/g, '""')}"`;
+    }
+
+    return field;
+}
+
+/**
+ * Writes rows in the format parseDelimited reads, quoting fields as described in RFC 4180.
+ */
+function toDelimited(rows: string[][], delimiter: string, lineSeparator = "\r\n"): string {
+    return rows.map((row) => row.map((field) => quoteField(field, delimiter)).join(delimiter)).join(lineSeparator);
+}
+
+export {
+    parseDelimited,
+    detectDelimiter,
+    delimitedToTableContent,
+    toDelimited,
+}
@@ -0,0 +1,173 @@
+
+// Asks for the character before it to be shown as an emoji, which is wide.
+const EMOJI_PRESENTATION_SELECTOR = 0xFE0F;
+
+// Code point ranges which take up no room of their own: combining marks, joiners,
+// variation selectors and emoji modifiers.
+const ZERO_WIDTH_RANGES: [number, number][] = [
+    [0x0300, 0x036F],
+    [0x0483, 0x0489],
+    [0x0591, 0x05BD],
+    [0x0610, 0x061A],
+    [0x064B, 0x065F],
+    [0x0670, 0x0670],
+    [0x06D6, 0x06DC],
+    [0x0E31, 0x0E31],
+    [0x0E34, 0x0E3A],
+    [0x0E47, 0x0E4E],
+    [0x1160, 0x11FF],
+    [0x1AB0, 0x1AFF],
+    [0x1DC0, 0x1DFF],
+    [0x200B, 0x200F],
+    [0x2060, 0x2064],
+    [0x20D0, 0x20FF],
+    [0x302A, 0x302D],
+    [0x3099, 0x309A],
+    [0xFE00, 0xFE0F],
+    [0xFE20, 0xFE2F],
+    [0xFEFF, 0xFEFF],
+    [0x1F3FB, 0x1F3FF],
+    [0xE0000, 0xE007F],
+    [0xE0100, 0xE01EF],
+];
+
+// Code point ranges which are East Asian Wide or Fullwidth, including emoji
+// that are presented as such by default.
+const WIDE_RANGES: [number, number][] = [
+    [0x1100, 0x115F],
+    [0x231A, 0x231B],
+    [0x2329, 0x232A],
+    [0x23E9, 0x23EC],
+    [0x23F0, 0x23F0],
+    [0x23F3, 0x23F3],
+    [0x25FD, 0x25FE],
+    [0x2614, 0x2615],
+    [0x2648, 0x2653],
+    [0x267F, 0x267F],
+    [0x2693, 0x2693],
+    [0x26A1, 0x26A1],
+    [0x26AA, 0x26AB],
+    [0x26BD, 0x26BE],
+    [0x26C4, 0x26C5],
+    [0x26CE, 0x26CE],
+    [0x26D4, 0x26D4],
+    [0x26EA, 0x26EA],
+    [0x26F2, 0x26F3],
+    [0x26F5, 0x26F5],
+    [0x26FA, 0x26FA],
+    [0x26FD, 0x26FD],
+    [0x2705, 0x2705],
+    [0x270A, 0x270B],
+    [0x2728, 0x2728],
+    [0x274C, 0x274C],
+    [0x274E, 0x274E],
+    [0x2753, 0x2755],
+    [0x2757, 0x2757],
+    [0x2795, 0x2797],
+    [0x27B0, 0x27B0],
+    [0x27BF, 0x27BF],
+    [0x2B1B, 0x2B1C],
+    [0x2B50, 0x2B50],
+    [0x2B55, 0x2B55],
+    [0x2E80, 0x3029],
+    [0x302E, 0x303E],
+    [0x3041, 0x3098],
+    [0x309B, 0x33FF],
+    [0x3400, 0x4DBF],
+    [0x4E00, 0x9FFF],
+    [0xA000, 0xA4CF],
+    [0xA960, 0xA97F],
+    [0xAC00, 0xD7A3],
+    [0xF900, 0xFAFF],
+    [0xFE10, 0xFE19],
+    [0xFE30, 0xFE6F],
+    [0xFF00, 0xFF60],
+    [0xFFE0, 0xFFE6],
+    [0x16FE0, 0x16FE4],
+    [0x17000, 0x18AFF],
+    [0x1B000, 0x1B2FF],
+    [0x1F004, 0x1F004],
+    [0x1F0CF, 0x1F0CF],
+    [0x1F18E, 0x1F18E],
+    [0x1F191, 0x1F19A],
+    [0x1F200, 0x1F251],
+    [0x1F300, 0x1F3FA],
+    [0x1F400, 0x1F64F],
+    [0x1F680, 0x1F6FF],
+    [0x1F7E0, 0x1F7EB],
+    [0x1F90C, 0x1F9FF],
+    [0x1FA70, 0x1FAFF],
+    [0x20000, 0x2FFFD],
+    [0x30000, 0x3FFFD],
+];
+
+function inRanges(codePoint: number, ranges: [number, number][]): boolean {
+    let low = 0;
+    let high = ranges.length - 1;
+    while (low <= high) {
+        const mid = (low + high) >> 1;
+        if (codePoint < ranges[mid][0]) {
+            high = mid - 1;
+        } else if (codePoint > ranges[mid][1]) {
+            low = mid + 1;
+        } else {
+            return true;
+        }
+    }
+
+    return false;
+}
+
+/**
+ * How many columns a code point takes up in a monospace font, like wcwidth does.
+ */
+function codePointWidth(codePoint: number): number {
+    if (inRanges(codePoint, ZERO_WIDTH_RANGES)) return 0;
+    if (inRanges(codePoint, WIDE_RANGES)) return 2;
+    return 1;
+}
+
+/**
+ * Splits text into the columns it takes up when displayed. A wide character's column is
+ * followed by an empty one, and zero-width characters join the column before them. Narrow
+ * characters followed by the emoji presentation selector (like '❤️') are wide.
+ * Joining the columns gives back the text.
+ */
+function toDisplayColumns(text: string): string[] {
+    const columns: string[] = [];
+    for (const char of text) {
+        const width = codePointWidth(char.codePointAt(0) as number);
+        if (width == 0 && columns.length > 0) {
+            // Attach to the character, not to the empty column following a wide one.
+            let last = columns.length - 1;
+            while (last > 0 && columns[last] == "") last--;
+            columns[last] += char;
+            if (char.codePointAt(0) == EMOJI_PRESENTATION_SELECTOR && last == columns.length - 1) {
+                columns.push("");
+            }
+            continue;
+        }
+
+        columns.push(char);
+        if (width == 2) {
+            columns.push("");
+        }
+    }
+
+    return columns;
+}
+
+function displayWidth(text: string): number {
+    return toDisplayColumns(text).length;
+}
+
+function padEndToWidth(text: string, width: number): string {
+    return text + " ".repeat(Math.max(0, width - displayWidth(text)));
+}
+
+export {
+    codePointWidth,
+    toDisplayColumns,
+    displayWidth,
+    padEndToWidth,
+}
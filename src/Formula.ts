@@ -0,0 +1,480 @@
+import { TableContent } from "./TableData";
+import { parseNumber } from "./TableSort";
+
+/**
+ * Cells starting with '=' hold a formula like '=SUM(B2:B9) / 2', which is shown evaluated while
+ * the source keeps the formula. References are A1-style: columns are letters, rows are counted
+ * from 1 including the header row. 'B:B' is the whole column, and a column can also be referred to
+ * by its header, like 'AVG(Price)', which leaves out the header row.
+ */
+
+type FormulaErrorCode = "#ERROR!" | "#NAME?" | "#REF!" | "#VALUE!" | "#DIV/0!" | "#CIRC!";
+
+class FormulaError extends Error {
+    readonly code: FormulaErrorCode
+
+    constructor(code: FormulaErrorCode, message: string) {
+        super(message);
+        this.code = code;
+    }
+}
+
+type FormulaResult =
+    | { value: number }
+    | { error: FormulaErrorCode, message: string }
+
+type Expression =
+    | { kind: "number", value: number }
+    | { kind: "ref", row: number, col: number }
+    // Bounds are inclusive, whole columns end at the last row.
+    | { kind: "range", top: number, left: number, bottom: number | null, right: number }
+    // A column referred to by its header.
+    | { kind: "column", name: string }
+    | { kind: "unary", op: "-" | "+", operand: Expression }
+    | { kind: "binary", op: "+" | "-" | "*" | "/" | "^", left: Expression, right: Expression }
+    | { kind: "call", name: string, args: Expression[] }
+
+/**
+ * Only content which parses is a formula, so text like '= see above' or '==highlight==' stays text.
+ */
+function isFormula(content: string): boolean {
+    if (!content.trimStart().startsWith("=") || content.trim().length <= 1) {
+        return false;
+    }
+
+    try {
+        parseFormula(content);
+        return true;
+    } catch (e) {
+        if (!(e instanceof FormulaError)) throw e;
+        return false;
+    }
+}
+
+function columnIndex(letters: string): number {
+    let index = 0;
+    for (const letter of letters.toUpperCase()) {
+        index = index * 26 + (letter.charCodeAt(0) - 64);
+    }
+
+    return index - 1;
+}
+
+function columnName(col: number): string {
+    let name = "";
+    for (let n = col + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        name = String.fromCharCode(65 + (n - 1) % 26) + name;
+    }
+
+    return name;
+}
+
+function cellName(row: number, col: number): string {
+    return `${columnName(col)}${row + 1}`;
+}
+
+const TOKEN_PATTERN = /\s*(?:(\d+(?:\.\d*)?|\.\d+)|([A-Za-z_]\w*)|([-+*/^(),:]))/y;
+
+function tokenize(source: string): string[] {
+    const tokens = [];
+    TOKEN_PATTERN.lastIndex = 0;
+    while (TOKEN_PATTERN.lastIndex < source.length) {
+        const start = TOKEN_PATTERN.lastIndex;
+        const match = TOKEN_PATTERN.exec(source);
+        if (!match) {
+            if (source.substring(start).trim() == "") break;
+            throw new FormulaError("#ERROR!", `Unexpected '${source.substring(start).trim()[0]}' in formula`);
+        }
+        tokens.push(match[1] ?? match[2] ?? match[3]);
+    }
+
+    return tokens;
+}
+
+class Parser {
+    tokens: string[]
+    position: number
+
+    constructor(tokens: string[]) {
+        this.tokens = tokens;
+        this.position = 0;
+    }
+
+    peek(): string | undefined {
+        return this.tokens[this.position];
+    }
+
+    next(): string {
+        const token = this.tokens[this.position++];
+        if (token == undefined) {
+            throw new FormulaError("#ERROR!", "Unexpected end of formula");
+        }
+
+        return token;
+    }
+
+    expect(token: string) {
+        const actual = this.next();
+        if (actual != token) {
+            throw new FormulaError("#ERROR!", `Expected '${token}' but found '${actual}'`);
+        }
+    }
+
+    parse(): Expression {
+        const expression = this.parseSum();
+        if (this.peek() != undefined) {
+            throw new FormulaError("#ERROR!", `Unexpected '${this.peek()}' in formula`);
+        }
+
+        return expression;
+    }
+
+    parseSum(): Expression {
+        let left = this.parseProduct();
+        for (let op = this.peek(); op == "+" || op == "-"; op = this.peek()) {
+            this.next();
+            left = { kind: "binary", op, left, right: this.parseProduct() };
+        }
+
+        return left;
+    }
+
+    parseProduct(): Expression {
+        let left = this.parsePower();
+        for (let op = this.peek(); op == "*" || op == "/"; op = this.peek()) {
+            this.next();
+            left = { kind: "binary", op, left, right: this.parsePower() };
+        }
+
+        return left;
+    }
+
+    parsePower(): Expression {
+        const base = this.parseUnary();
+        if (this.peek() == "^") {
+            this.next();
+            // Right-associative, so 2^3^2 is 2^(3^2).
+            return { kind: "binary", op: "^", left: base, right: this.parsePower() };
+        }
+
+        return base;
+    }
+
+    parseUnary(): Expression {
+        const op = this.peek();
+        if (op == "-" || op == "+") {
+            this.next();
+            return { kind: "unary", op, operand: this.parseUnary() };
+        }
+
+        return this.parsePrimary();
+    }
+
+    parsePrimary(): Expression {
+        const token = this.next();
+
+        if (token == "(") {
+            const inner = this.parseSum();
+            this.expect(")");
+            return inner;
+        }
+        if (/^[\d.]/.test(token)) {
+            return { kind: "number", value: parseFloat(token) };
+        }
+        if (!/^[A-Za-z]/.test(token)) {
+            throw new FormulaError("#ERROR!", `Unexpected '${token}' in formula`);
+        }
+
+        if (this.peek() == "(") {
+            return this.parseCall(token.toUpperCase());
+        }
+        if (this.peek() == ":") {
+            this.next();
+            return this.parseRange(token, this.next());
+        }
+
+        const ref = token.match(/^([A-Za-z]+)(\d+)$/);
+        if (!ref) {
+            return { kind: "column", name: token };
+        }
+
+        return { kind: "ref", row: parseInt(ref[2]) - 1, col: columnIndex(ref[1]) };
+    }
+
+    parseCall(name: string): Expression {
+        this.expect("(");
+        const args = [];
+        if (this.peek() != ")") {
+            args.push(this.parseSum());
+            while (this.peek() == ",") {
+                this.next();
+                args.push(this.parseSum());
+            }
+        }
+        this.expect(")");
+
+        return { kind: "call", name, args };
+    }
+
+    parseRange(from: string, to: string): Expression {
+        const fromRef = from.match(/^([A-Za-z]+)(\d+)?$/);
+        const toRef = to.match(/^([A-Za-z]+)(\d+)?$/);
+        // Either both ends are cells or both are columns.
+        if (!fromRef || !toRef || (fromRef[2] == undefined) != (toRef[2] == undefined)) {
+            throw new FormulaError("#ERROR!", `'${from}:${to}' isn't a range`);
+        }
+
+        const [left, right] = [columnIndex(fromRef[1]), columnIndex(toRef[1])].sort((a, b) => a - b);
+        if (fromRef[2] == undefined || toRef[2] == undefined) {
+            return { kind: "range", top: 0, left, bottom: null, right };
+        }
+
+        const [top, bottom] = [parseInt(fromRef[2]) - 1, parseInt(toRef[2]) - 1].sort((a, b) => a - b);
+        return { kind: "range", top, left, bottom, right };
+    }
+}
+
+function parseFormula(content: string): Expression {
+    const source = content.trim().substring(1);
+    return new Parser(tokenize(source)).parse();
+}
+
+type Aggregate = (values: number[]) => number;
+
+function average(values: number[]): number {
+    if (values.length == 0) {
+        throw new FormulaError("#DIV/0!", "Average of no numbers");
+    }
+
+    return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+const AGGREGATES: Record<string, Aggregate> = {
+    SUM: (values) => values.reduce((a, b) => a + b, 0),
+    AVG: average,
+    AVERAGE: average,
+    MIN: (values) => values.length == 0 ? 0 : Math.min(...values),
+    MAX: (values) => values.length == 0 ? 0 : Math.max(...values),
+    COUNT: (values) => values.length,
+};
+
+/**
+ * Evaluates the formulas in a table. Results are cached, so it should be thrown away once
+ * the table changes.
+ */
+class FormulaEvaluator {
+    readonly table: TableContent
+    results: Map<string, FormulaResult>
+    // The cells whose formulas are being evaluated (innermost last), to detect circular references.
+    evaluating: string[]
+
+    constructor(table: TableContent) {
+        this.table = table;
+        this.results = new Map();
+        this.evaluating = [];
+    }
+
+    /**
+     * The result of the formula in the cell, or null if the cell doesn't contain one.
+     */
+    evaluate(row: number, col: number): FormulaResult | null {
+        const expression = this.formulaAt(row, col);
+        if (expression == null) {
+            return null;
+        }
+
+        const key = cellName(row, col);
+        const cached = this.results.get(key);
+        if (cached) {
+            return cached;
+        }
+        if (this.evaluating.includes(key)) {
+            throw new FormulaError("#CIRC!", `${key} refers to itself`);
+        }
+
+        let result: FormulaResult;
+        this.evaluating.push(key);
+        try {
+            result = { value: this.evaluateExpression(expression) };
+        } catch (e) {
+            if (!(e instanceof FormulaError)) throw e;
+            result = { error: e.code, message: e.message };
+        } finally {
+            this.evaluating.pop();
+        }
+
+        this.results.set(key, result);
+        return result;
+    }
+
+    /**
+     * The cell's formula, or null if it doesn't hold one. Just a word which isn't a column's
+     * header, like '=TODO', is text rather than a formula with an unknown name.
+     */
+    formulaAt(row: number, col: number): Expression | null {
+        const content = this.table.getCell(row, col).content;
+        if (!isFormula(content)) {
+            return null;
+        }
+
+        const expression = parseFormula(content);
+        if (expression.kind == "column" && this.columnWithName(expression.name) == -1) {
+            return null;
+        }
+
+        return expression;
+    }
+
+    // Cells referred to directly must be numbers (or empty), while ranges skip over text.
+    cellValue(row: number, col: number, inRange: boolean): number | null {
+        if (row < 0 || col < 0 || row >= this.table.rowCount || col >= this.table.columnCount) {
+            throw new FormulaError("#REF!", `${cellName(row, col)} is outside of the table`);
+        }
+
+        const cell = this.table.getCell(row, col);
+        if (this.formulaAt(row, col) != null) {
+            // Throws for circular references, which the cells on the way back up the circle get as well.
+            const result = this.evaluate(row, col);
+            if (result && "error" in result) {
+                throw new FormulaError(result.error, `${cellName(row, col)}: ${result.message}`);
+            }
+            return result ? result.value : null;
+        }
+
+        if (cell.content.trim() == "") {
+            return inRange ? null : 0;
+        }
+
+        const value = parseNumber(cell.content);
+        if (value == null && !inRange) {
+            throw new FormulaError("#VALUE!", `${cellName(row, col)} isn't a number`);
+        }
+
+        return value;
+    }
+
+    // The column with the name as its header, ignoring case, or -1.
+    columnWithName(name: string): number {
+        if (!this.table.hasHeaderRow) {
+            return -1;
+        }
+
+        return this.table.rows[0].cells.findIndex((cell) => cell.content.trim().toLowerCase() == name.toLowerCase());
+    }
+
+    // The column below the header with the name.
+    columnRange(name: string): Expression & { kind: "range" } {
+        const col = this.columnWithName(name);
+        if (col == -1) {
+            throw new FormulaError("#NAME?", `Unknown name '${name}'`);
+        }
+
+        return { kind: "range", top: 1, left: col, bottom: null, right: col };
+    }
+
+    rangeValues(expression: Expression & { kind: "range" }): number[] {
+        const bottom = expression.bottom ?? this.table.rowCount - 1;
+        const values = [];
+        for (let row = expression.top; row <= bottom; row++) {
+            for (let col = expression.left; col <= expression.right; col++) {
+                // A formula summing up its own column leaves itself out.
+                if (expression.bottom == null && this.evaluating[this.evaluating.length - 1] == cellName(row, col)) continue;
+
+                const value = this.cellValue(row, col, true);
+                if (value != null) {
+                    values.push(value);
+                }
+            }
+        }
+
+        return values;
+    }
+
+    evaluateExpression(expression: Expression): number {
+        switch (expression.kind) {
+            case "number":
+                return expression.value;
+            case "ref":
+                return this.cellValue(expression.row, expression.col, false) ?? 0;
+            case "column":
+                this.columnRange(expression.name);
+                throw new FormulaError("#VALUE!", "Columns can only be used in functions like SUM");
+            case "range":
+                throw new FormulaError("#VALUE!", "Ranges can only be used in functions like SUM");
+            case "unary": {
+                const operand = this.evaluateExpression(expression.operand);
+                return expression.op == "-" ? -operand : operand;
+            }
+            case "binary": {
+                const left = this.evaluateExpression(expression.left);
+                const right = this.evaluateExpression(expression.right);
+                switch (expression.op) {
+                    case "+": return left + right;
+                    case "-": return left - right;
+                    case "*": return left * right;
+                    case "^": return Math.pow(left, right);
+                    case "/":
+                        if (right == 0) {
+                            throw new FormulaError("#DIV/0!", "Division by zero");
+                        }
+                        return left / right;
+                }
+                break;
+            }
+            case "call":
+                return this.evaluateCall(expression.name, expression.args);
+        }
+    }
+
+    evaluateCall(name: string, args: Expression[]): number {
+        const values = () => args.flatMap((arg) => {
+            switch (arg.kind) {
+                case "range": return this.rangeValues(arg);
+                case "column": return this.rangeValues(this.columnRange(arg.name));
+                default: return [this.evaluateExpression(arg)];
+            }
+        });
+
+        const aggregate = AGGREGATES[name];
+        if (aggregate) {
+            return aggregate(values());
+        }
+
+        switch (name) {
+            case "ABS":
+                if (args.length != 1) break;
+                return Math.abs(this.evaluateExpression(args[0]));
+            case "ROUND": {
+                if (args.length < 1 || args.length > 2) break;
+                const factor = Math.pow(10, args.length == 2 ? this.evaluateExpression(args[1]) : 0);
+                return Math.round(this.evaluateExpression(args[0]) * factor) / factor;
+            }
+            default:
+                throw new FormulaError("#NAME?", `Unknown function '${name}'`);
+        }
+
+        throw new FormulaError("#ERROR!", `Wrong number of arguments for ${name}`);
+    }
+}
+
+function formatFormulaResult(result: FormulaResult): string {
+    if ("error" in result) {
+        return result.error;
+    }
+
+    // Hides floating point noise like 0.1 + 0.2 = 0.30000000000000004.
+    return parseFloat(result.value.toPrecision(12)).toString();
+}
+
+export type {
+    FormulaErrorCode,
+    FormulaResult,
+}
+
+export {
+    isFormula,
+    columnName,
+    FormulaError,
+    FormulaEvaluator,
+    formatFormulaResult,
+}
@@ -10,6 +10,8 @@ class ObsidianEditorAdapter {
 
     activeController: MarkdownController | null;
     activeEditor: AdaptedEditor | null;
+    // The file the mounted editor belongs to.
+    file: TFile | null;
 
     extraExtensionProvider: () => Extension[];
 
@@ -21,6 +23,7 @@ class ObsidianEditorAdapter {
 
         this.activeController = null;
         this.activeEditor = null;
+        this.file = null;
 
         this.extraExtensionProvider = () => [];
     }
@@ -37,11 +40,8 @@ class ObsidianEditorAdapter {
     }
 
     setExtraExtensionProvider(provider: () => Extension[]) {
-        if (this.activeEditor) {
-            console.warn("Changing the ExtensionProvider will not affect a mounted editor!");
-        }
-
         this.extraExtensionProvider = provider;
+        this.activeEditor?.setExtraExtensionProvider(provider);
     }
 
     get parentElement(): Element {
@@ -64,6 +64,7 @@ class ObsidianEditorAdapter {
 
         this.activeController = controller;
         this.activeEditor = editor;
+        this.file = file;
 
         this.plugin.addChild(this.activeEditor);
         this.activeController.editMode = editor;
@@ -77,6 +78,32 @@ class ObsidianEditorAdapter {
         this.plugin.removeChild(this.activeEditor);
         this.activeEditor = null;
         this.activeController = null;
+        this.file = null;
+    }
+
+    /**
+     * Takes the mounted editor out of its element, keeping it loaded to be attached again.
+     */
+    detach() {
+        if (!this.activeEditor) {
+            throw new Error("Not mounted!");
+        }
+
+        this.activeEditor.setChangeHandler(undefined);
+        this.activeEditor.parentEditor = null;
+        this.activeEditor.editorEl.detach();
+    }
+
+    /**
+     * Moves the detached editor into the element, like mounting it there.
+     */
+    attach(element: Element) {
+        if (!this.activeEditor) {
+            throw new Error("Not mounted!");
+        }
+
+        element.appendChild(this.activeEditor.editorEl);
+        this.activeEditor.containerEl = element as HTMLElement;
     }
 
     setContent(content: string) {
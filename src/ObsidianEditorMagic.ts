@@ -4,7 +4,7 @@
  */
 
 import { App, Component, Editor, TFile } from "obsidian";
-import { Extension } from "@codemirror/state"
+import { Compartment, Extension } from "@codemirror/state"
 import { EditorView, ViewUpdate } from "@codemirror/view"
 
 function getMarkdownEditorClass(app: App) {
@@ -61,6 +61,7 @@ export interface AdaptedEditor extends Component {
     get app(): App;
     get cm(): EditorView;
     get containerEl(): HTMLElement;
+    set containerEl(el: HTMLElement);
     get editorEl(): HTMLElement;
     get editor(): Editor;
     get parentEditor(): EditorView | null
@@ -74,16 +75,22 @@ function getTableCellEditorClass(superclass: { new(app: App, element: Element, c
     class TableCellEditor extends superclass implements AdaptedEditor {
         onChange: TableChangeHandler | undefined;
         extraExtensionProvider: (() => Extension[]) | undefined;
+        // Holds the extra extensions, so that they can be swapped when the editor is reused.
+        extraExtensions: Compartment | undefined;
         parentEditor: EditorView | null
 
         constructor(app: App, element: Element, controller: MarkdownController) {
             super(app, element, controller);
             this.extraExtensionProvider = undefined;
+            this.extraExtensions = this.extraExtensions ?? new Compartment();
             this.parentEditor = null;
         }
 
         setExtraExtensionProvider(provider: (() => Extension[]) | undefined): void {
             this.extraExtensionProvider = provider;
+            if (this.cm && this.extraExtensions) {
+                this.cm.dispatch({ effects: this.extraExtensions.reconfigure(provider?.() ?? []) });
+            }
         }
 
         isCellEditor = true;
@@ -94,10 +101,9 @@ function getTableCellEditorClass(superclass: { new(app: App, element: Element, c
         }
         buildLocalExtensions(): Extension[] {
             const extensions: Extension[] = super.buildLocalExtensions();
-            if (this.extraExtensionProvider) {
-                const extraExtensions = this.extraExtensionProvider();
-                extensions.push(...extraExtensions);
-            }
+            // This may run in the superclass' constructor, before the constructor above.
+            this.extraExtensions = this.extraExtensions ?? new Compartment();
+            extensions.push(this.extraExtensions.of(this.extraExtensionProvider?.() ?? []));
             return extensions;
         }
 
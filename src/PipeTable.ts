@@ -0,0 +1,164 @@
+import { displayWidth, padEndToWidth } from "./DisplayWidth";
+import { ColumnAlignment, TableCell, TableContent, TableRow } from "./TableData";
+import { continuationPrefix, SeparatorLine } from "./TableSerde";
+
+interface PipeTableOptions {
+    // Pipe table cells can't contain line breaks. If set, a cell's lines are joined
+    // with this (e.g. "<br>") instead of refusing to convert.
+    joinLinesWith?: string | null
+}
+
+/**
+ * Splits a pipe table row into its cells. The pipes at the start and the end of the row are
+ * optional, and '\|' is a pipe inside a cell rather than a cell border. Like in GitHub
+ * Flavored Markdown, backslashes escape each other, so '\\|' is a backslash before a border,
+ * and '\\\|' is a backslash before a pipe (see escapeCell).
+ */
+function splitPipeRow(line: string): string[] {
+    let row = line.trim();
+    if (row.startsWith("|")) {
+        row = row.substring(1);
+    }
+
+    const cells = [];
+    let current = "";
+    let endsWithBorder = false;
+    for (let i = 0; i < row.length; i++) {
+        endsWithBorder = false;
+        const backslashes = row.slice(i).match(/^\\+(?=\|)/)?.[0].length ?? 0;
+        if (backslashes > 0) {
+            current += "\\".repeat(Math.floor(backslashes / 2));
+            i += backslashes - 1;
+            if (backslashes % 2 == 1) {
+                current += "|";
+                i++;
+            }
+        } else if (row[i] == "|") {
+            cells.push(current.trim());
+            current = "";
+            endsWithBorder = true;
+        } else {
+            current += row[i];
+        }
+    }
+    if (!endsWithBorder || cells.length == 0) {
+        cells.push(current.trim());
+    }
+
+    return cells;
+}
+
+// Escapes the pipes in a cell's content, and the backslashes right before them, which
+// would escape the pipe's backslash otherwise.
+function escapeCell(content: string): string {
+    return content.replace(/(\\*)\|/g, (_, backslashes: string) => `${backslashes}${backslashes}\\|`);
+}
+
+function isPipeTableLine(line: string): boolean {
+    return line.trim() != "" && line.replace(/\\\|/g, "").includes("|");
+}
+
+function isDelimiterRow(line: string): boolean {
+    return isPipeTableLine(line) && splitPipeRow(line).every((cell) => cell.match(/^:?-+:?$/) != null);
+}
+
+/**
+ * Finds the lines of the pipe table the given line is part of, as [first, last] line index.
+ */
+function findPipeTable(lines: string[], lineIndex: number): [number, number] | null {
+    if (!isPipeTableLine(lines[lineIndex] ?? "")) {
+        return null;
+    }
+
+    let first = lineIndex;
+    while (first > 0 && isPipeTableLine(lines[first - 1])) {
+        first--;
+    }
+    let last = lineIndex;
+    while (last < lines.length - 1 && isPipeTableLine(lines[last + 1])) {
+        last++;
+    }
+
+    // The table starts at the header row right above the delimiter row.
+    for (let i = first + 1; i <= last; i++) {
+        if (isDelimiterRow(lines[i]) && i - 1 <= lineIndex) {
+            first = i - 1;
+        }
+    }
+    if (last - first < 1 || !isDelimiterRow(lines[first + 1])) {
+        return null;
+    }
+
+    return [first, last];
+}
+
+function tryParsePipeTable(lines: string[]): TableContent {
+    if (lines.length < 2 || !isDelimiterRow(lines[1])) {
+        throw new Error("Not a pipe table! The second line must be a delimiter row like '| --- | :-: |'.");
+    }
+
+    const header = splitPipeRow(lines[0]);
+    const delimiters = splitPipeRow(lines[1]);
+    if (header.length != delimiters.length) {
+        throw new Error("The header row and the delimiter row must have the same number of cells!");
+    }
+
+    // Like GitHub, rows are cut off or filled up to the header's number of cells.
+    const rows = [header, ...lines.slice(2).map((line) => splitPipeRow(line))].map((cells) => {
+        const filled = header.map((_, i) => cells[i] ?? "");
+        return new TableRow(filled.map((content) => new TableCell(content)));
+    });
+
+    return new TableContent(rows, {
+        hasHeaderRow: true,
+        columnAlignments: delimiters.map((d) => SeparatorLine.parseAlignment(d)),
+    });
+}
+
+function delimiterFor(alignment: ColumnAlignment, width: number): string {
+    const markLeft = alignment == "left" || alignment == "center";
+    const markRight = alignment == "right" || alignment == "center";
+    const dashes = Math.max(width - Number(markLeft) - Number(markRight), 1);
+
+    return (markLeft ? ":" : "") + "-".repeat(dashes) + (markRight ? ":" : "");
+}
+
+function tableContentToPipeTable(table: TableContent, options: PipeTableOptions = {}): string {
+    if (table.hasSpans) {
+        throw new Error("Pipe tables can't contain merged cells!");
+    }
+
+    const rows = table.rows.map((row, rowIdx) => row.cells.map((cell, colIdx) => {
+        const lines = cell.content.split("\n");
+        if (lines.length > 1 && options.joinLinesWith == null) {
+            throw new Error(`The cell in row ${rowIdx + 1}, column ${colIdx + 1} has multiple lines, which pipe tables can't contain!`);
+        }
+
+        return escapeCell(lines.join(options.joinLinesWith ?? ""));
+    }));
+
+    // Pipe tables always have a header, so tables without one get an empty one.
+    if (!table.hasHeaderRow) {
+        rows.unshift(rows[0].map(() => ""));
+    }
+
+    const widths = rows[0].map((_, colIdx) => Math.max(3, ...rows.map((row) => displayWidth(row[colIdx]))));
+    const formatRow = (cells: string[]) => `| ${cells.map((cell, colIdx) => padEndToWidth(cell, widths[colIdx])).join(" | ")} |`;
+    const delimiterRow = `| ${widths.map((width, colIdx) => delimiterFor(table.columnAlignments[colIdx] ?? "default", width)).join(" | ")} |`;
+
+    const rest = continuationPrefix(table.linePrefix);
+    return [formatRow(rows[0]), delimiterRow, ...rows.slice(1).map(formatRow)]
+        .map((line, i) => (i == 0 ? table.linePrefix : rest) + line)
+        .join("\n");
+}
+
+export type {
+    PipeTableOptions,
+}
+
+export {
+    splitPipeRow,
+    findPipeTable,
+    tryParsePipeTable,
+    tableContentToPipeTable,
+}
@@ -0,0 +1,235 @@
+import { TableContent } from "./TableData";
+import { parseTableMarker } from "./TableDetection";
+import { lookAheadForTableParts, SerializeOptions, tableLinePrefix, tryParseTableFromParsedParts } from "./TableSerde";
+
+/**
+ * Obsidian doesn't know grid tables, so in reading view their lines end up as the text of
+ * paragraphs, list items, blockquotes or callouts. These are found by where the tables are
+ * in the section's source, and replaced by the rendered tables.
+ */
+
+interface SectionTable {
+    // Index of the table's first line in the section's lines.
+    line: number
+    // The table's lines, without the prefixes of the blocks they're in.
+    lines: string[]
+    content: TableContent
+}
+
+function stripLinePrefix(line: string): string {
+    return line.slice(tableLinePrefix(line).length);
+}
+
+function findTablesInLines(lines: string[], options: SerializeOptions = {}): SectionTable[] {
+    const stripped = lines.map(stripLinePrefix);
+    const tables = [];
+    for (let n = 0; n < stripped.length; n++) {
+        if (!stripped[n].startsWith("+")) continue;
+
+        const parts = lookAheadForTableParts(stripped.slice(n));
+        let content;
+        try {
+            content = tryParseTableFromParsedParts(parts, "", options);
+        } catch (e) {
+            // Not a table.
+            continue;
+        }
+
+        if (n == 0 || parseTableMarker(lines[n - 1]) != "off") {
+            tables.push({ line: n, lines: stripped.slice(n, n + parts.length), content });
+        }
+        n += parts.length - 1;
+    }
+
+    return tables;
+}
+
+type CellElementRenderer = (el: HTMLTableCellElement, content: string, row: number, col: number) => void;
+
+function renderTable(table: TableContent, renderCell: CellElementRenderer): HTMLTableElement {
+    const tableEl = document.createElement("table");
+    const tbody = document.createElement("tbody");
+    for (const [rowIdx, row] of table.rows.entries()) {
+        const isHeaderRow = table.hasHeaderRow && rowIdx == 0;
+        const tr = document.createElement("tr");
+        for (const [colIdx, cell] of row.cells.entries()) {
+            if (cell.isCovered) continue;
+
+            const td = document.createElement(isHeaderRow ? "th" : "td");
+            td.rowSpan = cell.rowSpan;
+            td.colSpan = cell.colSpan;
+            const alignment = table.columnAlignments[colIdx];
+            if (alignment && alignment != "default") {
+                td.style.textAlign = alignment;
+            }
+            renderCell(td, cell.content, rowIdx, colIdx);
+            tr.appendChild(td);
+        }
+
+        if (isHeaderRow) {
+            const thead = document.createElement("thead");
+            thead.appendChild(tr);
+            tableEl.appendChild(thead);
+        } else {
+            tbody.appendChild(tr);
+        }
+    }
+    tableEl.appendChild(tbody);
+
+    return tableEl;
+}
+
+// A rendered line of text, with the <br> ending it. Blocks inside the text (like nested
+// lists) are lines without text, which tables can't span.
+interface DomLine {
+    nodes: ChildNode[]
+    text: string | null
+}
+
+const INLINE_ELEMENTS = new Set(["A", "ABBR", "B", "BR", "CODE", "DEL", "EM", "I", "IMG", "INPUT", "KBD", "MARK", "S", "SMALL", "SPAN", "STRONG", "SUB", "SUP", "U"]);
+
+/**
+ * Splits the element's text into its lines, which end at <br>s (or at newlines, with strict
+ * line breaks). Text nodes are split at their newlines for that.
+ */
+function domLines(el: Element): DomLine[] {
+    const lines: DomLine[] = [];
+    let current: ChildNode[] = [];
+    // A newline right after a <br> belongs to the same line break.
+    let afterBreak = false;
+    const endLine = () => {
+        lines.push({ nodes: current, text: current.map((n) => n.nodeName == "BR" ? "" : n.textContent ?? "").join("").trim() });
+        current = [];
+    };
+
+    for (const child of Array.from(el.childNodes)) {
+        if (child.nodeType == Node.TEXT_NODE) {
+            let text = child as Text;
+            let newline = text.data.indexOf("\n");
+            while (newline >= 0) {
+                const rest = text.splitText(newline + 1);
+                current.push(text);
+                if (!(afterBreak && newline == 0)) {
+                    endLine();
+                }
+                afterBreak = false;
+                text = rest;
+                newline = text.data.indexOf("\n");
+            }
+            current.push(text);
+            if (text.data != "") afterBreak = false;
+        } else if (INLINE_ELEMENTS.has(child.nodeName)) {
+            current.push(child);
+            if (child.nodeName == "BR") {
+                endLine();
+                afterBreak = true;
+            } else {
+                afterBreak = false;
+            }
+        } else {
+            endLine();
+            lines.push({ nodes: [], text: null });
+            afterBreak = false;
+        }
+    }
+    endLine();
+
+    return lines;
+}
+
+function isBlank(el: Element): boolean {
+    return Array.from(el.childNodes).every((n) => n.nodeName == "BR" || (n.nodeType == Node.TEXT_NODE && (n.textContent ?? "").trim() == ""));
+}
+
+/**
+ * Finds the rendered lines of the table in the element, as the element and the index of its first line.
+ */
+function findTableLines(section: HTMLElement, table: SectionTable): [Element, DomLine[], number] | null {
+    const first = table.lines[0].trim();
+    const last = table.lines[table.lines.length - 1].trim();
+
+    for (const el of Array.from(section.querySelectorAll("p, li"))) {
+        // Cells of tables rendered before.
+        if (el.closest("table")) continue;
+
+        const lines = domLines(el);
+        for (let n = 0; n + table.lines.length <= lines.length; n++) {
+            const tableLines = lines.slice(n, n + table.lines.length);
+            if (tableLines[0].text == first && tableLines[tableLines.length - 1].text == last && tableLines.every((l) => l.text != null)) {
+                return [el, lines, n];
+            }
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Replaces the table's lines in the element with the table. Paragraphs are split around it,
+ * since tables can't be inside them.
+ */
+function replaceLines(el: Element, lines: DomLine[], first: number, count: number, tableEl: HTMLTableElement) {
+    const nodes = lines.slice(first, first + count).flatMap((l) => l.nodes);
+    const lastNode = nodes[nodes.length - 1];
+
+    // The line break in front of the table.
+    const previousLine = lines[first - 1];
+    const previousBreak = previousLine?.nodes[previousLine.nodes.length - 1];
+    if (previousBreak?.nodeName == "BR") {
+        previousBreak.remove();
+    }
+
+    if (el.tagName == "P") {
+        const after = document.createElement("p");
+        while (lastNode.nextSibling) {
+            after.appendChild(lastNode.nextSibling);
+        }
+        // What's left of the line break after the table.
+        if (after.firstChild?.nodeType == Node.TEXT_NODE) {
+            after.firstChild.textContent = (after.firstChild.textContent ?? "").trimStart();
+        }
+        el.after(tableEl);
+        if (!isBlank(after)) {
+            tableEl.after(after);
+        }
+    } else {
+        el.insertBefore(tableEl, nodes[0]);
+    }
+
+    for (const node of nodes) {
+        node.remove();
+    }
+    if (el.tagName == "P" && isBlank(el)) {
+        el.remove();
+    }
+}
+
+/**
+ * Renders the grid tables in the section's source (its lines) in place of their text in the
+ * section's element. Returns how many tables were rendered.
+ */
+function renderTablesInSection(section: HTMLElement, lines: string[], render: (table: TableContent) => HTMLTableElement, options: SerializeOptions = {}): number {
+    let rendered = 0;
+    for (const table of findTablesInLines(lines, options)) {
+        const found = findTableLines(section, table);
+        if (!found) continue;
+
+        const [el, domLinesOfEl, first] = found;
+        replaceLines(el, domLinesOfEl, first, table.lines.length, render(table.content));
+        rendered++;
+    }
+
+    return rendered;
+}
+
+export type {
+    SectionTable,
+    CellElementRenderer,
+}
+
+export {
+    stripLinePrefix,
+    findTablesInLines,
+    renderTable,
+    renderTablesInSection,
+}
@@ -0,0 +1,186 @@
+import { Text } from "@codemirror/state";
+import { toDisplayColumns } from "./DisplayWidth";
+import { ColumnAlignment, TableCell, TableContent, TableRow } from "./TableData";
+import { cellSourceLines, continuationPrefix, lookAheadForTableParts, SeparatorLine, SerializeOptions, tableLinePrefix, tryParseTableFromParsedParts } from "./TableSerde";
+
+/**
+ * Support for grid tables written by hand in source mode: finding the border characters to
+ * highlight them, and reading tables whose borders don't line up anymore so they can be aligned.
+ */
+
+// A range of characters, relative to the start of the table's source.
+interface SourceRange {
+    from: number
+    to: number
+}
+
+function isRuleCharacter(char: string): boolean {
+    return char == "-" || char == "=" || char == ":";
+}
+
+// Lines like '+---+===+', which may be out of line with the rest of the table.
+function isBorderLine(line: string): boolean {
+    return line.match(/^\+([-=:]+\+)+$/) != null;
+}
+
+/**
+ * The characters of the table's borders, as opposed to its cells' contents. Borders are the
+ * separator lines and the characters on the column boundaries those have.
+ */
+function tableBorderRanges(source: string, linePrefix = ""): SourceRange[] {
+    const lines = source.split("\n").map((line) => toDisplayColumns(line.slice(linePrefix.length)));
+
+    const boundaries = new Set<number>();
+    for (const columns of lines) {
+        if (!isBorderLine(columns.join(""))) continue;
+        columns.forEach((char, i) => {
+            if (char == "+") boundaries.add(i);
+        });
+    }
+    const sortedBoundaries = Array.from(boundaries).sort((a, b) => a - b);
+
+    const ranges: SourceRange[] = [];
+    let lineStart = 0;
+    for (const columns of lines) {
+        const isBorder: boolean[] = columns.map(() => false);
+        if (isBorderLine(columns.join(""))) {
+            isBorder.fill(true);
+        } else {
+            for (const [i, boundary] of sortedBoundaries.entries()) {
+                if (columns[boundary] == "|" || columns[boundary] == "+") {
+                    isBorder[boundary] = true;
+                }
+
+                // Separators between the rows of cells which span other rows, like in '| a  +----+'.
+                const next = sortedBoundaries[i + 1];
+                const segment = columns.slice(boundary + 1, next);
+                if (next != undefined && columns[boundary] == "+" && columns[next] == "+" && segment.every(isRuleCharacter)) {
+                    isBorder.fill(true, boundary + 1, next);
+                }
+            }
+        }
+
+        let offset = lineStart + linePrefix.length;
+        for (const [i, column] of columns.entries()) {
+            if (isBorder[i]) {
+                const previous = ranges[ranges.length - 1];
+                if (previous && previous.to == offset) {
+                    previous.to += column.length;
+                } else {
+                    ranges.push({ from: offset, to: offset + column.length });
+                }
+            }
+            offset += column.length;
+        }
+        lineStart = offset + 1;
+    }
+
+    return ranges;
+}
+
+/**
+ * The lines around the position which could be a table: lines starting and ending with
+ * a border, in the same block. Only the first line may start a list item. Returns the first
+ * and last line numbers (1-based).
+ */
+function findFramedLines(doc: Text, pos: number): [number, number] | null {
+    const line = doc.lineAt(pos);
+    const blockPrefix = continuationPrefix(tableLinePrefix(line.text));
+    const prefixAt = (lineNumber: number) => tableLinePrefix(doc.line(lineNumber).text);
+    const startsListItem = (lineNumber: number) => continuationPrefix(prefixAt(lineNumber)) != prefixAt(lineNumber);
+    const isFramed = (lineNumber: number) => {
+        const prefix = prefixAt(lineNumber);
+        return continuationPrefix(prefix) == blockPrefix && doc.line(lineNumber).text.slice(prefix.length).match(/^[+|].*[+|]\s*$/) != null;
+    };
+    if (!isFramed(line.number)) return null;
+
+    let first = line.number;
+    let last = line.number;
+    while (!startsListItem(first) && first > 1 && isFramed(first - 1)) first--;
+    while (last < doc.lines && isFramed(last + 1) && !startsListItem(last + 1)) last++;
+
+    return [first, last];
+}
+
+/**
+ * Reads a table whose borders don't line up, like after typing into it in source mode. Only
+ * works for tables without merged cells, since those need their borders to line up. The
+ * widths of the top border are kept as the columns' widths.
+ */
+function parseMisalignedTable(lines: string[], options: SerializeOptions = {}): TableContent | null {
+    const prefix = tableLinePrefix(lines[0] ?? "");
+    if (lines.length < 3 || !lines.slice(1).every((line) => tableLinePrefix(line) == continuationPrefix(prefix))) {
+        return null;
+    }
+
+    const unprefixed = lines.map((line) => line.slice(prefix.length).trimEnd());
+    const top = unprefixed[0];
+    if (!isBorderLine(top) || !isBorderLine(unprefixed[unprefixed.length - 1])) {
+        return null;
+    }
+
+    const segments = top.split("+").slice(1, -1);
+    const columnCount = segments.length;
+    const rows: string[][][] = [];
+    let current: string[][] | null = null;
+    let headerSeparator: string | null = null;
+    for (const line of unprefixed.slice(1)) {
+        if (isBorderLine(line)) {
+            if (current == null || line.split("+").length - 2 != columnCount) return null;
+            rows.push(current);
+            current = null;
+
+            if (line.includes("=")) {
+                if (rows.length != 1) return null;
+                headerSeparator = line;
+            }
+            continue;
+        }
+
+        const chunks = line.match(/^\|(.*)\|$/)?.[1].split("|");
+        if (!chunks || chunks.length != columnCount) return null;
+
+        const cells: string[][] = current ?? chunks.map(() => []);
+        chunks.forEach((chunk, col) => cells[col].push(chunk));
+        current = cells;
+    }
+    if (current != null) return null;
+
+    const alignmentSegments = (headerSeparator ?? top).split("+").slice(1, -1);
+    return new TableContent(rows.map((row) => new TableRow(row.map((cellLines) => new TableCell(cellSourceLines(cellLines, options.maxColumnWidth ?? null).join("\n"))))), {
+        hasHeaderRow: headerSeparator != null,
+        columnAlignments: alignmentSegments.map((segment): ColumnAlignment => SeparatorLine.parseAlignment(segment)),
+        columnWidths: segments.map((segment) => segment.length),
+        linePrefix: prefix,
+    });
+}
+
+/**
+ * Reads the table in the lines, whether its borders line up or not.
+ * Returns whether the borders were aligned along with the table.
+ */
+function parseTableSource(lines: string[], options: SerializeOptions = {}): [TableContent, boolean] | null {
+    const parts = lookAheadForTableParts(lines);
+    if (parts.length == lines.length) {
+        try {
+            return [tryParseTableFromParsedParts(parts, tableLinePrefix(lines[0]), options), true];
+        } catch (e) {
+            // Not aligned.
+        }
+    }
+
+    const table = parseMisalignedTable(lines, options);
+    return table ? [table, false] : null;
+}
+
+export type {
+    SourceRange,
+}
+
+export {
+    isBorderLine,
+    tableBorderRanges,
+    findFramedLines,
+    parseMisalignedTable,
+    parseTableSource,
+}
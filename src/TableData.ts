@@ -1,12 +1,40 @@
 
+const COLUMN_ALIGNMENTS = ["default", "left", "center", "right"] as const;
+
+type ColumnAlignment = typeof COLUMN_ALIGNMENTS[number];
+
+function isColumnAlignment(value: string): value is ColumnAlignment {
+    return (COLUMN_ALIGNMENTS as readonly string[]).includes(value);
+}
+
 class TableCell {
     readonly content: string
+    // How many rows/columns the cell spans. Positions hidden under another cell's
+    // span are filled with covered cells, which have both spans set to 0.
+    readonly rowSpan: number
+    readonly colSpan: number
 
-    constructor(content: string) {
+    constructor(content: string, rowSpan = 1, colSpan = 1) {
         this.content = content;
+        this.rowSpan = rowSpan;
+        this.colSpan = colSpan;
+    }
+
+    static covered(): TableCell {
+        return new TableCell("", 0, 0);
+    }
+
+    get isCovered() {
+        return this.rowSpan == 0 || this.colSpan == 0;
     }
 
     toString() {
+        if (this.isCovered) {
+            return "TableCell(covered)";
+        }
+        if (this.rowSpan != 1 || this.colSpan != 1) {
+            return `TableCell("${this.content}", rowSpan=${this.rowSpan}, colSpan=${this.colSpan})`
+        }
         return `TableCell("${this.content}")`
     }
 }
@@ -28,18 +56,37 @@ class TableRow {
     }
 }
 
+interface TableContentOptions {
+    hasHeaderRow?: boolean
+    columnAlignments?: ColumnAlignment[]
+    // The room between the borders each column had in the source, which serializing keeps
+    // as the column's minimum width. null for columns which should just fit their content.
+    columnWidths?: (number | null)[]
+    // What comes before each of the table's lines in the source, like '> ' in blockquotes
+    // and callouts, or the indentation in list items.
+    linePrefix?: string
+}
+
 class TableContent {
     readonly rows: readonly TableRow[]
+    readonly hasHeaderRow: boolean
+    readonly columnAlignments: readonly ColumnAlignment[]
+    readonly columnWidths: readonly (number | null)[]
+    readonly linePrefix: string
 
-    constructor(rows: TableRow[]) {
+    constructor(rows: TableRow[], options: TableContentOptions = {}) {
         this.rows = rows;
+        this.hasHeaderRow = options.hasHeaderRow ?? false;
+        this.columnAlignments = options.columnAlignments ?? (rows[0]?.cells ?? []).map((): ColumnAlignment => "default");
+        this.columnWidths = options.columnWidths ?? (rows[0]?.cells ?? []).map(() => null);
+        this.linePrefix = options.linePrefix ?? "";
     }
     toString() {
-        return `TableContent([${this.rows}])`
+        return `TableContent([${this.rows}], hasHeaderRow=${this.hasHeaderRow}, columnAlignments=[${this.columnAlignments}], columnWidths=[${this.columnWidths}])`
     }
 
     get columnCount() {
-        return this.rows[0].length;
+        return this.rows[0]?.length ?? 0;
     }
 
     get rowCount() {
@@ -50,6 +97,282 @@ class TableContent {
         return this.rows.flatMap((r) => r.cells);
     }
 
+    get hasSpans(): boolean {
+        return this.allCells.some((c) => c.rowSpan != 1 || c.colSpan != 1);
+    }
+
+    getCell(row: number, col: number): TableCell {
+        const cell = this.rows[row]?.cells[col];
+        if (!cell) {
+            throw new Error(`No cell at row ${row}, column ${col}!`);
+        }
+
+        return cell;
+    }
+
+    /**
+     * Returns the position of the cell whose span covers the given position.
+     */
+    findSpanOrigin(row: number, col: number): [number, number] {
+        for (let r = row; r >= 0; r--) {
+            for (let c = col; c >= 0; c--) {
+                const cell = this.getCell(r, c);
+                if (!cell.isCovered && r + cell.rowSpan > row && c + cell.colSpan > col) {
+                    return [r, c];
+                }
+            }
+        }
+
+        throw new Error(`Cell at row ${row}, column ${col} isn't covered by any cell!`);
+    }
+
+    private withRows(rows: TableRow[]): TableContent {
+        return new TableContent(rows, {
+            hasHeaderRow: this.hasHeaderRow,
+            columnAlignments: this.columnAlignments.slice(),
+            columnWidths: this.columnWidths.slice(),
+            linePrefix: this.linePrefix,
+        });
+    }
+
+    /**
+     * Drops the widths kept from the source, so that every column fits its content again.
+     */
+    normalizeWidths(): TableContent {
+        return new TableContent(this.rows.slice(), {
+            hasHeaderRow: this.hasHeaderRow,
+            columnAlignments: this.columnAlignments.slice(),
+            linePrefix: this.linePrefix,
+        });
+    }
+
+    /**
+     * The same table with another prefix in front of its lines, like none for writing it on its own.
+     */
+    withLinePrefix(linePrefix: string): TableContent {
+        return new TableContent(this.rows.slice(), {
+            hasHeaderRow: this.hasHeaderRow,
+            columnAlignments: this.columnAlignments.slice(),
+            columnWidths: this.columnWidths.slice(),
+            linePrefix,
+        });
+    }
+
+    private mapCells(mapper: (cell: TableCell, row: number, col: number) => TableCell): TableContent {
+        return this.withRows(this.rows.map((row, rowIdx) => new TableRow(row.cells.map((cell, colIdx) => mapper(cell, rowIdx, colIdx)))));
+    }
+
+    /**
+     * Makes the spans consistent: spans are clipped to the table and to the cells in their way,
+     * and covered cells which no span covers anymore become empty cells.
+     */
+    normalizeSpans(): TableContent {
+        const claimed: boolean[][] = this.rows.map((row) => row.cells.map(() => false));
+        const spans: [number, number][][] = this.rows.map((row) => row.cells.map((): [number, number] => [0, 0]));
+        const isClaimable = (row: number, col: number) => !claimed[row][col] && this.getCell(row, col).isCovered;
+
+        for (let row = 0; row < this.rowCount; row++) {
+            for (let col = 0; col < this.rows[row].length; col++) {
+                const cell = this.getCell(row, col);
+                if (claimed[row][col]) continue;
+                claimed[row][col] = true;
+
+                if (cell.isCovered) {
+                    spans[row][col] = [1, 1];
+                    continue;
+                }
+
+                let colSpan = 1;
+                while (colSpan < cell.colSpan && col + colSpan < this.rows[row].length && isClaimable(row, col + colSpan)) {
+                    colSpan++;
+                }
+
+                let rowSpan = 1;
+                while (rowSpan < cell.rowSpan && row + rowSpan < this.rowCount) {
+                    const nextRow = row + rowSpan;
+                    let rowClaimable = true;
+                    for (let c = col; c < col + colSpan; c++) {
+                        rowClaimable = rowClaimable && isClaimable(nextRow, c);
+                    }
+                    if (!rowClaimable) break;
+                    rowSpan++;
+                }
+
+                for (let r = row; r < row + rowSpan; r++) {
+                    for (let c = col; c < col + colSpan; c++) {
+                        claimed[r][c] = true;
+                    }
+                }
+                spans[row][col] = [rowSpan, colSpan];
+            }
+        }
+
+        return this.mapCells((cell, row, col) => {
+            const [rowSpan, colSpan] = spans[row][col];
+            if (rowSpan == 0) {
+                return TableCell.covered();
+            }
+            return new TableCell(cell.isCovered ? "" : cell.content, rowSpan, colSpan);
+        });
+    }
+
+    private mergeWith(row: number, col: number, otherRow: number, otherCol: number): TableContent {
+        const [originRow, originCol] = this.findSpanOrigin(row, col);
+        const origin = this.getCell(originRow, originCol);
+        const [neighbourRow, neighbourCol] = this.findSpanOrigin(otherRow, otherCol);
+        const neighbour = this.getCell(neighbourRow, neighbourCol);
+
+        const mergedContent = [origin.content, neighbour.content].filter((c) => c.trim() != "").join("\n");
+        const rowSpan = Math.max(originRow + origin.rowSpan, neighbourRow + neighbour.rowSpan) - originRow;
+        const colSpan = Math.max(originCol + origin.colSpan, neighbourCol + neighbour.colSpan) - originCol;
+
+        return this.mapCells((cell, r, c) => {
+            if (r == originRow && c == originCol) {
+                return new TableCell(mergedContent, rowSpan, colSpan);
+            }
+            if (r >= originRow && r < originRow + rowSpan && c >= originCol && c < originCol + colSpan) {
+                return TableCell.covered();
+            }
+            return cell;
+        });
+    }
+
+    /**
+     * Merges the cell at the given position with the cell to its right.
+     * Both cells must span the same rows.
+     */
+    mergeRight(row: number, col: number): TableContent {
+        const [originRow, originCol] = this.findSpanOrigin(row, col);
+        const origin = this.getCell(originRow, originCol);
+        const neighbourCol = originCol + origin.colSpan;
+        if (neighbourCol >= this.columnCount) {
+            throw new Error("There is no cell to the right to merge with!");
+        }
+
+        const [neighbourRow, neighbourOriginCol] = this.findSpanOrigin(originRow, neighbourCol);
+        const neighbour = this.getCell(neighbourRow, neighbourOriginCol);
+        if (neighbourRow != originRow || neighbour.rowSpan != origin.rowSpan) {
+            throw new Error("Only cells spanning the same rows can be merged!");
+        }
+
+        return this.mergeWith(originRow, originCol, neighbourRow, neighbourOriginCol);
+    }
+
+    /**
+     * Merges the cell at the given position with the cell below it.
+     * Both cells must span the same columns.
+     */
+    mergeDown(row: number, col: number): TableContent {
+        const [originRow, originCol] = this.findSpanOrigin(row, col);
+        const origin = this.getCell(originRow, originCol);
+        const neighbourRow = originRow + origin.rowSpan;
+        if (neighbourRow >= this.rowCount) {
+            throw new Error("There is no cell below to merge with!");
+        }
+
+        const [neighbourOriginRow, neighbourCol] = this.findSpanOrigin(neighbourRow, originCol);
+        const neighbour = this.getCell(neighbourOriginRow, neighbourCol);
+        if (neighbourCol != originCol || neighbour.colSpan != origin.colSpan) {
+            throw new Error("Only cells spanning the same columns can be merged!");
+        }
+
+        return this.mergeWith(originRow, originCol, neighbourOriginRow, neighbourCol);
+    }
+
+    /**
+     * Splits a merged cell back into single cells. The content stays in the top-left one.
+     */
+    splitCell(row: number, col: number): TableContent {
+        const [originRow, originCol] = this.findSpanOrigin(row, col);
+        const origin = this.getCell(originRow, originCol);
+
+        return this.mapCells((cell, r, c) => {
+            if (r == originRow && c == originCol) {
+                return new TableCell(cell.content);
+            }
+            if (r >= originRow && r < originRow + origin.rowSpan && c >= originCol && c < originCol + origin.colSpan) {
+                return new TableCell("");
+            }
+            return cell;
+        });
+    }
+
+    /**
+     * Sets the contents of the cells starting at the given position, adding rows and columns
+     * to the end of the table for values which don't fit. Cells under merged cells are skipped.
+     */
+    fillCells(row: number, col: number, values: string[][]): TableContent {
+        const rowCount = Math.max(this.rowCount, row + values.length);
+        const columnCount = Math.max(this.columnCount, col + Math.max(0, ...values.map((r) => r.length)));
+
+        const rows = [];
+        for (let r = 0; r < rowCount; r++) {
+            const cells = [];
+            for (let c = 0; c < columnCount; c++) {
+                const cell = this.rows[r]?.cells[c] ?? new TableCell("");
+                const value = values[r - row]?.[c - col];
+                cells.push(value == undefined || cell.isCovered ? cell : new TableCell(value, cell.rowSpan, cell.colSpan));
+            }
+            rows.push(new TableRow(cells));
+        }
+
+        const added = columnCount - this.columnCount;
+        return new TableContent(rows, {
+            hasHeaderRow: this.hasHeaderRow,
+            columnAlignments: [...this.columnAlignments, ...Array<ColumnAlignment>(added).fill("default")],
+            columnWidths: [...this.columnWidths, ...Array<number | null>(added).fill(null)],
+            linePrefix: this.linePrefix,
+        });
+    }
+
+    /**
+     * Deletes the rows from first to last (inclusive). Spans over the rows shrink, and spans
+     * starting in them continue from the row after them. Deleting the first row deletes the
+     * header row, so the next row doesn't become the header.
+     */
+    deleteRows(first: number, last: number): TableContent {
+        const rows = this.rows.map((row, r) => new TableRow(row.cells.map((cell, c) => {
+            if (cell.isCovered) {
+                if (r != last + 1) return cell;
+
+                const [originRow, originCol] = this.findSpanOrigin(r, c);
+                const origin = this.getCell(originRow, originCol);
+                if (originRow < first || originCol != c) return cell;
+                return new TableCell("", originRow + origin.rowSpan - r, origin.colSpan);
+            }
+
+            if (r < first && r + cell.rowSpan > first) {
+                const deleted = Math.min(r + cell.rowSpan, last + 1) - first;
+                return new TableCell(cell.content, cell.rowSpan - deleted, cell.colSpan);
+            }
+            return cell;
+        })));
+        rows.splice(first, last - first + 1);
+
+        return new TableContent(rows, {
+            hasHeaderRow: this.hasHeaderRow && first > 0,
+            columnAlignments: this.columnAlignments.slice(),
+            columnWidths: this.columnWidths.slice(),
+            linePrefix: this.linePrefix,
+        });
+    }
+
+    /**
+     * Swaps rows and columns, so a header row becomes the first column. Grid tables have no
+     * header columns, and alignments belong to the old columns, so both are dropped.
+     */
+    transpose(): TableContent {
+        const rows = [];
+        for (let col = 0; col < this.columnCount; col++) {
+            rows.push(new TableRow(this.rows.map((row) => {
+                const cell = row.cells[col];
+                return cell.isCovered ? TableCell.covered() : new TableCell(cell.content, cell.colSpan, cell.rowSpan);
+            })));
+        }
+
+        return new TableContent(rows, { linePrefix: this.linePrefix });
+    }
+
     // addRow(length: number | undefined = undefined): TableRow {
     //     if (length == undefined) {
     //         if (this.rows.length == 0) {
@@ -76,7 +399,14 @@ class TableContent {
     // }
 }
 
+export type {
+    TableContentOptions,
+    ColumnAlignment,
+}
+
 export {
+    COLUMN_ALIGNMENTS,
+    isColumnAlignment,
     TableContent,
     TableRow,
     TableCell,
@@ -0,0 +1,168 @@
+import { ChangeSet, Text } from "@codemirror/state";
+import { TableContent } from "./TableData";
+import { lookAheadForTableParts, SeparatorLine, SerializeOptions, tableLinePrefix, tryParseTableFromParsedParts } from "./TableSerde";
+
+interface DetectedTable {
+    // Document positions of the table's first and last character. The table starts at the
+    // beginning of its line, before the line prefix.
+    from: number
+    to: number
+    source: string
+    content: TableContent
+}
+
+function* linesFrom(doc: Text, lineNumber: number) {
+    for (let n = lineNumber; n <= doc.lines; n++) {
+        yield doc.line(n).text;
+    }
+}
+
+function unprefixed(line: string): string {
+    return line.slice(tableLinePrefix(line).length);
+}
+
+function isSeparatorLine(line: string): boolean {
+    try {
+        SeparatorLine.tryParse(unprefixed(line));
+        return true;
+    } catch (e) {
+        return false;
+    }
+}
+
+// Only lines like these can be part of a table.
+function isFramedLine(line: string): boolean {
+    return unprefixed(line).startsWith("+") || unprefixed(line).startsWith("|");
+}
+
+/**
+ * Finds the tables starting between the given lines (1-based, inclusive).
+ * Tables may continue past the last line.
+ */
+function findTables(doc: Text, fromLine = 1, toLine = doc.lines, options: SerializeOptions = {}): DetectedTable[] {
+    const tables = [];
+    for (let n = fromLine; n <= toLine; n++) {
+        if (!isSeparatorLine(doc.line(n).text)) continue;
+
+        const parts = lookAheadForTableParts(linesFrom(doc, n));
+        let content;
+        try {
+            content = tryParseTableFromParsedParts(parts, tableLinePrefix(doc.line(n).text), options);
+        } catch (e) {
+            // Failed to parse table.
+            continue;
+        }
+
+        const from = doc.line(n).from;
+        const to = doc.line(n + parts.length - 1).to;
+        tables.push({ from, to, source: doc.sliceString(from, to), content });
+        n += parts.length - 1;
+    }
+
+    return tables;
+}
+
+type TableMarker = "on" | "off";
+
+// A comment on the line before a table, which forces ('on') or suppresses ('off') rendering it,
+// like '<!-- grid-table: off -->' or '%% grid-table: on %%'.
+const TABLE_MARKER = /^(<!--|%%)\s*grid-table:\s*(on|off)\s*(-->|%%)$/;
+
+function parseTableMarker(line: string): TableMarker | null {
+    const match = unprefixed(line).trim().match(TABLE_MARKER);
+    return match ? match[2] as TableMarker : null;
+}
+
+function tableMarker(doc: Text, table: DetectedTable): TableMarker | null {
+    const line = doc.lineAt(table.from);
+    return line.number > 1 ? parseTableMarker(doc.line(line.number - 1).text) : null;
+}
+
+// Syntax nodes of blocks whose lines aren't Markdown. Obsidian names its nodes after the token
+// types of the line joined by '_', like 'formatting_formatting-code-block_hmd-codeblock';
+// the others are the nodes of @lezer/markdown.
+const SKIPPED_NODE_TYPES = ["hmd-codeblock", "hmd-indented-code", "hmd-frontmatter", "math", "hmd-html", "FencedCode", "CodeBlock", "HTMLBlock"];
+
+function isSkippedNode(name: string): boolean {
+    return name.split("_").some((type) => SKIPPED_NODE_TYPES.some((skipped) => type == skipped || type.startsWith(skipped + "-")));
+}
+
+/**
+ * Brings the tables found in a document up to date with changes to it. Only tables near
+ * the changes are parsed again, the others are kept (as the same objects if they didn't move).
+ */
+function updateTables(tables: readonly DetectedTable[], changes: ChangeSet, doc: Text, options: SerializeOptions = {}): DetectedTable[] {
+    if (changes.empty) {
+        return tables.slice();
+    }
+
+    const kept: DetectedTable[] = [];
+    const dirty: [number, number][] = [];
+    changes.iterChangedRanges((fromA, toA, fromB, toB) => {
+        dirty.push([fromB, toB]);
+    });
+
+    for (const table of tables) {
+        // Changes on the lines right before or after a table can also change where it ends.
+        if (changes.touchesRange(Math.max(0, table.from - 1), table.to + 1)) {
+            dirty.push([changes.mapPos(table.from, -1), changes.mapPos(table.to, 1)]);
+            continue;
+        }
+
+        const from = changes.mapPos(table.from);
+        const to = changes.mapPos(table.to);
+        kept.push(from == table.from ? table : { ...table, from, to });
+    }
+
+    const isKept = (lineNumber: number) => {
+        const line = doc.line(lineNumber);
+        return kept.some((t) => t.from <= line.to && t.to >= line.from);
+    };
+
+    // Grow the changed ranges to whole tables which could contain them.
+    const lineRanges: [number, number][] = [];
+    for (const [from, to] of dirty.sort((a, b) => a[0] - b[0])) {
+        let first = doc.lineAt(Math.min(from, doc.length)).number;
+        let last = doc.lineAt(Math.min(to, doc.length)).number;
+        while (first > 1 && isFramedLine(doc.line(first - 1).text) && !isKept(first - 1)) {
+            first--;
+        }
+        while (last < doc.lines && isFramedLine(doc.line(last + 1).text) && !isKept(last + 1)) {
+            last++;
+        }
+
+        const previous = lineRanges[lineRanges.length - 1];
+        if (previous && first <= previous[1] + 1) {
+            previous[1] = Math.max(previous[1], last);
+        } else {
+            lineRanges.push([first, last]);
+        }
+    }
+
+    // A table found in one range can run into the next one.
+    const found: DetectedTable[] = [];
+    for (const table of lineRanges.flatMap(([first, last]) => findTables(doc, first, last, options))) {
+        const previous = found[found.length - 1];
+        if (!previous || previous.to < table.from) {
+            found.push(table);
+        }
+    }
+
+    return kept
+        .filter((t) => !found.some((f) => f.from <= t.to && f.to >= t.from))
+        .concat(found)
+        .sort((a, b) => a.from - b.from);
+}
+
+export type {
+    DetectedTable,
+    TableMarker,
+}
+
+export {
+    findTables,
+    updateTables,
+    parseTableMarker,
+    tableMarker,
+    isSkippedNode,
+}
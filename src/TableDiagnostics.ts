@@ -0,0 +1,301 @@
+import { Text } from "@codemirror/state";
+import { displayWidth, toDisplayColumns } from "./DisplayWidth";
+import { findFramedLines, isBorderLine, parseTableSource } from "./SourceMode";
+import { TableContent } from "./TableData";
+import { continuationPrefix, SerializeOptions, tableLinePrefix } from "./TableSerde";
+
+/**
+ * Finds out what's wrong with tables which are almost valid, like when a border is off by
+ * one character, and repairs them by going with what most of their lines agree on.
+ */
+
+interface TableDiagnostic {
+    // Index of the line in the table's lines.
+    line: number
+    // Offsets of the problem in the line, including the line prefix.
+    from: number
+    to: number
+    reason: string
+}
+
+// A table which doesn't parse. Line numbers are 1-based and inclusive.
+interface BrokenTable {
+    firstLine: number
+    lastLine: number
+    diagnostics: TableDiagnostic[]
+}
+
+function mostCommon<T>(values: T[]): T | undefined {
+    const counts = new Map<T, number>();
+    let best: T | undefined = undefined;
+    let bestCount = 0;
+    for (const value of values) {
+        const count = (counts.get(value) ?? 0) + 1;
+        counts.set(value, count);
+        if (count > bestCount) {
+            best = value;
+            bestCount = count;
+        }
+    }
+
+    return best;
+}
+
+// What most of the table's lines agree on.
+interface TableGrid {
+    prefix: string
+    // Each line as display columns, without the prefix.
+    rows: string[][]
+    width: number
+    boundaries: number[]
+}
+
+function cornerPositions(columns: string[]): number[] {
+    return columns.flatMap((char, i) => char == "+" ? [i] : []);
+}
+
+function inferGrid(lines: string[]): TableGrid | null {
+    const prefix = tableLinePrefix(lines[0] ?? "");
+    const rows = lines.map((line) => toDisplayColumns(line.slice(prefix.length).trimEnd()));
+    const width = mostCommon(rows.map((row) => row.length)) ?? 0;
+
+    const separators = rows.filter((row) => row.length == width && isBorderLine(row.join("")));
+    const boundaries = mostCommon(separators.map((row) => cornerPositions(row).join(",")));
+    if (boundaries == undefined) {
+        return null;
+    }
+
+    return { prefix, rows, width, boundaries: boundaries.split(",").map((b) => parseInt(b)) };
+}
+
+function isValidTable(lines: string[]): boolean {
+    return parseTableSource(lines)?.[1] == true;
+}
+
+function isBorder(line: string): boolean {
+    return isBorderLine(line.slice(tableLinePrefix(line).length).trimEnd());
+}
+
+/**
+ * Cuts the content line into the columns, with its borders moved to where the columns are and
+ * the cells padded to their width if they fit. Returns null if that would lose any of its text:
+ * only spaces may be where the borders go, and only borders next to there may be dropped.
+ */
+function recutLine(row: string[], boundaries: number[]): string | null {
+    const last = row.length - 1;
+    const inner = boundaries.slice(1, -1);
+    if (row[0] != "|" || row[last] != "|" || inner.some((boundary) => boundary >= last || (row[boundary] != "|" && row[boundary] != " "))) {
+        return null;
+    }
+
+    const movedBorders = inner.filter((boundary) => row[boundary] != "|").flatMap((boundary) => [boundary - 1, boundary + 1]);
+    for (const [column, char] of row.entries()) {
+        if (char == "|" && column != 0 && column != last && !inner.includes(column) && !movedBorders.includes(column)) {
+            return null;
+        }
+    }
+
+    const chunks = [];
+    for (let col = 0; col < boundaries.length - 1; col++) {
+        const end = col == boundaries.length - 2 ? last : boundaries[col + 1];
+        const chunk = row.slice(boundaries[col] + 1, end).filter((char) => char != "|").join("").trimEnd();
+        const width = boundaries[col + 1] - boundaries[col] - 1;
+        chunks.push(chunk + " ".repeat(Math.max(width - displayWidth(chunk), 0)));
+    }
+
+    return `|${chunks.join("|")}|`;
+}
+
+/**
+ * Lists the problems of a table's lines which keep it from being a valid table.
+ */
+function diagnoseTable(lines: string[]): TableDiagnostic[] {
+    const grid = inferGrid(lines);
+    const lineEnd = (line: number) => lines[line].trimEnd().length;
+    const wholeLine = (line: number, reason: string) => ({ line, from: grid?.prefix.length ?? 0, to: lineEnd(line), reason });
+    if (grid == null) {
+        return [wholeLine(0, "The table has no border lines like '+---+'!")];
+    }
+
+    const { prefix, rows, width, boundaries } = grid;
+    // Offset of a display column in the line.
+    const offset = (line: number, column: number) => prefix.length + rows[line].slice(0, column).join("").length;
+    const at = (line: number, column: number, reason: string) => ({ line, from: offset(line, column), to: offset(line, column + 1), reason });
+
+    const diagnostics: TableDiagnostic[] = [];
+    const last = rows.length - 1;
+    if (!isBorderLine(rows[0].join(""))) {
+        diagnostics.push(wholeLine(0, "A table has to start with a border line like '+---+'!"));
+    }
+    if (!isBorderLine(rows[last].join(""))) {
+        diagnostics.push(wholeLine(last, "A table has to end with a border line like '+---+'!"));
+    }
+
+    let headerSeparator: number | null = null;
+    for (const [line, row] of rows.entries()) {
+        const isSeparator = isBorderLine(row.join(""));
+        if (isSeparator && line > 0 && isBorderLine(rows[line - 1].join(""))) {
+            diagnostics.push(wholeLine(line, "There has to be a line of content between two border lines!"));
+        }
+        if (isSeparator && row.includes("=")) {
+            if (headerSeparator != null) {
+                diagnostics.push(wholeLine(line, "Only one header separator ('+===+') is allowed!"));
+            } else if (rows.slice(1, line).some((r) => isBorderLine(r.join("")))) {
+                diagnostics.push(wholeLine(line, "The header separator ('+===+') has to come right after the first row!"));
+            }
+            headerSeparator = headerSeparator ?? line;
+        }
+
+        if (row.length != width) {
+            const reason = `This line is ${row.length} characters wide, but the table is ${width} wide!`;
+            if (row.length > width) {
+                diagnostics.push({ line, from: offset(line, width), to: lineEnd(line), reason });
+            } else {
+                diagnostics.push(at(line, Math.max(row.length - 1, 0), reason));
+            }
+            continue;
+        }
+
+        if (isSeparator) {
+            for (const corner of cornerPositions(row)) {
+                if (!boundaries.includes(corner)) {
+                    diagnostics.push(at(line, corner, "This corner doesn't line up with the columns!"));
+                }
+            }
+            continue;
+        }
+
+        for (const boundary of boundaries) {
+            if (row[boundary] == "|" || row[boundary] == "+") continue;
+
+            // A border next to where it should be was most likely moved by accident.
+            const moved = [boundary - 1, boundary + 1].find((column) => row[column] == "|");
+            if (moved != undefined) {
+                diagnostics.push(at(line, moved, "This border doesn't line up with the column!"));
+            }
+        }
+    }
+
+    if (diagnostics.length == 0 && !isValidTable(lines)) {
+        diagnostics.push(wholeLine(0, "The cells of the table don't line up into a grid!"));
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Finds the tables in the document which almost parse: lines framed by borders, starting with
+ * a border line, which don't make up a valid table. Two border lines in a row are where one
+ * table ends and the next one starts. Only tables starting between the given lines (1-based,
+ * inclusive) are looked at.
+ */
+function findBrokenTables(doc: Text, fromLine = 1, toLine = doc.lines): BrokenTable[] {
+    const broken = [];
+    for (let n = fromLine; n <= toLine; n++) {
+        if (!isBorder(doc.line(n).text)) continue;
+
+        const framed = findFramedLines(doc, doc.line(n).from);
+        if (framed == null) continue;
+
+        let firstLine = n;
+        for (let lastLine = n; lastLine <= framed[1]; lastLine++) {
+            const isEnd = lastLine == framed[1] || (isBorder(doc.line(lastLine).text) && isBorder(doc.line(lastLine + 1).text));
+            if (!isEnd) continue;
+
+            const lines = doc.sliceString(doc.line(firstLine).from, doc.line(lastLine).to).split("\n");
+            if (lines.length >= 3 && !isValidTable(lines)) {
+                broken.push({ firstLine, lastLine, diagnostics: diagnoseTable(lines) });
+            }
+            firstLine = lastLine + 1;
+        }
+        n = framed[1];
+    }
+
+    return broken;
+}
+
+/**
+ * The broken table the line is in, only looking at the lines around it.
+ */
+function findBrokenTableAt(doc: Text, line: number): BrokenTable | null {
+    const framed = findFramedLines(doc, doc.line(line).from);
+    if (framed == null) {
+        return null;
+    }
+
+    return findBrokenTables(doc, framed[0], framed[1]).find((table) => table.firstLine <= line && line <= table.lastLine) ?? null;
+}
+
+/**
+ * Rewrites the lines the way most of them agree on: border lines and content lines get their
+ * borders where the columns are, and missing top or bottom borders are added. Returns null if
+ * the table can't be repaired, like tables with merged cells which don't line up, or lines
+ * which can't be cut into the columns without losing text.
+ */
+function repairTable(lines: string[], options: SerializeOptions = {}): TableContent | null {
+    const parsed = parseTableSource(lines, options);
+    if (parsed != null) {
+        return parsed[0];
+    }
+
+    const grid = inferGrid(lines);
+    if (grid == null) {
+        return null;
+    }
+
+    const { prefix, rows, boundaries } = grid;
+    const columnCount = boundaries.length - 1;
+    const borderLine = (fill: string) => {
+        const columns = Array(boundaries[boundaries.length - 1] + 1).fill(fill);
+        for (const boundary of boundaries) {
+            columns[boundary] = "+";
+        }
+        return columns.join("");
+    };
+
+    const repaired = [];
+    for (const row of rows) {
+        const line = row.join("");
+        if (isBorderLine(line)) {
+            const corners = cornerPositions(row);
+            const fitsColumns = corners.every((corner) => boundaries.includes(corner)) && row.length == grid.width;
+            repaired.push(fitsColumns ? line : borderLine(line.includes("=") ? "=" : "-"));
+            continue;
+        }
+
+        // Lines with their borders in place are fine, even with pipes in their text.
+        if (row.length == grid.width && boundaries.every((boundary) => row[boundary] == "|")) {
+            repaired.push(line);
+            continue;
+        }
+
+        // Lines which can't be cut into the columns are fine if they have the right number of
+        // borders, however wide they are.
+        const recut = recutLine(row, boundaries);
+        if (recut == null && line.slice(1, -1).split("|").length != columnCount) {
+            return null;
+        }
+        repaired.push(recut ?? line);
+    }
+
+    if (!isBorderLine(repaired[0])) {
+        repaired.unshift(borderLine("-"));
+    }
+    if (!isBorderLine(repaired[repaired.length - 1])) {
+        repaired.push(borderLine("-"));
+    }
+
+    return parseTableSource(repaired.map((line, i) => (i == 0 ? prefix : continuationPrefix(prefix)) + line), options)?.[0] ?? null;
+}
+
+export type {
+    TableDiagnostic,
+    BrokenTable,
+}
+
+export {
+    diagnoseTable,
+    findBrokenTables,
+    findBrokenTableAt,
+    repairTable,
+}
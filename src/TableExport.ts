@@ -0,0 +1,120 @@
+import { toDelimited } from "./Delimited";
+import { tableContentToPipeTable } from "./PipeTable";
+import { TableContent } from "./TableData";
+
+const EXPORT_FORMATS = ["csv", "tsv", "html", "markdown"] as const;
+
+type ExportFormat = typeof EXPORT_FORMATS[number];
+
+const EXPORT_FORMAT_NAMES: Record<ExportFormat, string> = {
+    csv: "CSV",
+    tsv: "TSV",
+    html: "HTML",
+    markdown: "Markdown",
+};
+
+const EXPORT_FORMAT_EXTENSIONS: Record<ExportFormat, string> = {
+    csv: "csv",
+    tsv: "tsv",
+    html: "html",
+    markdown: "md",
+};
+
+// Turns a cell's Markdown into HTML.
+type CellRenderer = (content: string) => Promise<string>;
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
+
+/**
+ * The cell contents as rows of values. Cells hidden under a merged cell are empty.
+ */
+function tableValues(table: TableContent): string[][] {
+    return table.rows.map((row) => row.cells.map((cell) => cell.content));
+}
+
+async function tableContentToHtml(table: TableContent, renderCell: CellRenderer): Promise<string> {
+    const lines = ["<table>"];
+    for (const [rowIdx, row] of table.rows.entries()) {
+        const isHeaderRow = table.hasHeaderRow && rowIdx == 0;
+        if (rowIdx == 0) {
+            lines.push(isHeaderRow ? "<thead>" : "<tbody>");
+        }
+
+        lines.push("<tr>");
+        for (const [colIdx, cell] of row.cells.entries()) {
+            if (cell.isCovered) continue;
+
+            const tag = isHeaderRow ? "th" : "td";
+            const attributes = [];
+            if (cell.rowSpan > 1) attributes.push(` rowspan="${cell.rowSpan}"`);
+            if (cell.colSpan > 1) attributes.push(` colspan="${cell.colSpan}"`);
+            const alignment = table.columnAlignments[colIdx];
+            if (alignment && alignment != "default") attributes.push(` style="text-align: ${alignment}"`);
+
+            lines.push(`<${tag}${attributes.join("")}>${await renderCell(cell.content)}</${tag}>`);
+        }
+        lines.push("</tr>");
+
+        if (isHeaderRow) {
+            lines.push("</thead>", "<tbody>");
+        }
+    }
+    lines.push("</tbody>", "</table>");
+
+    return lines.join("\n");
+}
+
+function htmlDocument(title: string, body: string): string {
+    return [
+        "<!DOCTYPE html>",
+        "<html>",
+        "<head>",
+        '<meta charset="utf-8">',
+        `<title>${escapeHtml(title)}</title>`,
+        "<style>table { border-collapse: collapse; } th, td { border: 1px solid #999; padding: 4px 8px; vertical-align: top; }</style>",
+        "</head>",
+        "<body>",
+        body,
+        "</body>",
+        "</html>",
+    ].join("\n");
+}
+
+/**
+ * Writes the table in the given format. HTML cells are rendered with renderCell, which
+ * defaults to just escaping their text. Exports stand on their own, so Markdown tables are
+ * written without the prefix of the blockquote or list they're in.
+ */
+async function exportTable(table: TableContent, format: ExportFormat, renderCell: CellRenderer = async (c) => escapeHtml(c)): Promise<string> {
+    switch (format) {
+        case "csv":
+            return toDelimited(tableValues(table), ",");
+        case "tsv":
+            return toDelimited(tableValues(table), "\t", "\n");
+        case "html":
+            return await tableContentToHtml(table, renderCell);
+        case "markdown":
+            return tableContentToPipeTable(table.withLinePrefix(""), { joinLinesWith: "<br>" });
+    }
+}
+
+export type {
+    ExportFormat,
+    CellRenderer,
+}
+
+export {
+    EXPORT_FORMATS,
+    EXPORT_FORMAT_NAMES,
+    EXPORT_FORMAT_EXTENSIONS,
+    escapeHtml,
+    tableContentToHtml,
+    htmlDocument,
+    exportTable,
+}
@@ -0,0 +1,158 @@
+import { findPipeTable, tryParsePipeTable } from "./PipeTable";
+import { parseTableMarker } from "./TableDetection";
+import { continuationPrefix, lookAheadForTableParts, SeparatorLine, SerializeOptions, tableContentToString, tableLinePrefix, tryParseTableFromParsedParts } from "./TableSerde";
+
+interface ReformatOptions {
+    // Rewrite pipe tables as grid tables.
+    convertPipeTables: boolean
+    // Rewrite grid tables with fresh formatting, dropping the column widths from the source.
+    normalizeGridTables: boolean
+    serializeOptions?: SerializeOptions
+}
+
+interface ReformatResult {
+    text: string
+    gridTables: number
+    pipeTables: number
+    // How many of the tables were rewritten to something different.
+    changedTables: number
+}
+
+function isFence(line: string): boolean {
+    return line.trimStart().match(/^(```|~~~)/) != null;
+}
+
+function indentation(line: string): number {
+    return line.match(/^[ \t]*/)?.[0].replace(/\t/g, "    ").length ?? 0;
+}
+
+// Lines indented by four spaces after a blank line start indented code, unless they continue a list item.
+function startsIndentedCode(lines: string[], index: number): boolean {
+    if (indentation(lines[index]) < 4 || (index > 0 && lines[index - 1].trim() != "")) {
+        return false;
+    }
+
+    for (let n = index - 1; n >= 0; n--) {
+        if (lines[n].trim() == "") continue;
+
+        const prefix = tableLinePrefix(lines[n]);
+        if (continuationPrefix(prefix) != prefix) return false;
+        if (indentation(lines[n]) == 0) return true;
+    }
+
+    return true;
+}
+
+// The line after the YAML front matter at the start of the document, or 0 if there is none.
+function frontMatterEnd(lines: string[]): number {
+    if (lines[0] != "---") return 0;
+
+    const end = lines.indexOf("---", 1);
+    return end < 0 ? 0 : end + 1;
+}
+
+/**
+ * Finds the tables in a Markdown document and rewrites them according to the options.
+ * Tables in fenced or indented code blocks, in the front matter and after a 'grid-table: off'
+ * marker are left alone. Documents with Windows line endings keep them.
+ */
+function reformatTables(text: string, options: ReformatOptions): ReformatResult {
+    const lineBreak = text.includes("\r\n") ? "\r\n" : "\n";
+    const lines = text.split(/\r?\n/);
+    const result: ReformatResult = { text, gridTables: 0, pipeTables: 0, changedTables: 0 };
+    const output: string[] = [];
+
+    const replace = (original: string[], replacement: string) => {
+        output.push(...replacement.split("\n"));
+        if (replacement != original.join("\n")) {
+            result.changedTables++;
+        }
+    };
+
+    let inFence = false;
+    let inIndentedCode = false;
+    let index = frontMatterEnd(lines);
+    output.push(...lines.slice(0, index));
+    while (index < lines.length) {
+        const line = lines[index];
+        if (!inFence) {
+            inIndentedCode = inIndentedCode
+                ? line.trim() == "" || indentation(line) >= 4
+                : startsIndentedCode(lines, index);
+        }
+        if (!inIndentedCode && isFence(line)) {
+            inFence = !inFence;
+        }
+        if (inFence || inIndentedCode) {
+            output.push(line);
+            index++;
+            continue;
+        }
+
+        const prefix = tableLinePrefix(line);
+        let isSeparator = true;
+        try {
+            SeparatorLine.tryParse(line.slice(prefix.length));
+        } catch (e) {
+            isSeparator = false;
+        }
+
+        if (isSeparator && index > 0 && parseTableMarker(lines[index - 1]) == "off") {
+            isSeparator = false;
+        }
+
+        if (isSeparator) {
+            const parts = lookAheadForTableParts(lines.slice(index));
+            try {
+                const table = tryParseTableFromParsedParts(parts, prefix, options.serializeOptions);
+                const original = lines.slice(index, index + parts.length);
+                result.gridTables++;
+                if (options.normalizeGridTables) {
+                    replace(original, tableContentToString(table.normalizeWidths(), options.serializeOptions));
+                } else {
+                    output.push(...original);
+                }
+                index += parts.length;
+                continue;
+            } catch (e) {
+                // Not a grid table.
+            }
+        }
+
+        const pipeTable = findPipeTable(lines, index);
+        if (pipeTable != null && pipeTable[0] == index) {
+            const original = lines.slice(pipeTable[0], pipeTable[1] + 1);
+            try {
+                const table = tryParsePipeTable(original);
+                result.pipeTables++;
+                if (options.convertPipeTables) {
+                    replace(original, tableContentToString(table, options.serializeOptions));
+                } else {
+                    output.push(...original);
+                }
+                index = pipeTable[1] + 1;
+                continue;
+            } catch (e) {
+                // Not a pipe table.
+            }
+        }
+
+        output.push(line);
+        index++;
+    }
+
+    // Documents without changed tables stay as they are, even if their line endings are mixed.
+    if (result.changedTables > 0) {
+        result.text = output.join(lineBreak);
+    }
+    return result;
+}
+
+export type {
+    ReformatOptions,
+    ReformatResult,
+}
+
+export {
+    reformatTables,
+}
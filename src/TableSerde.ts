@@ -1,53 +1,116 @@
-import { TableCell, TableContent, TableRow } from "./TableData";
+import { displayWidth, padEndToWidth, toDisplayColumns } from "./DisplayWidth";
+import { ColumnAlignment, TableCell, TableContent, TableRow } from "./TableData";
 
 class SeparatorLine {
     columnLengths: number[]
+    isHeader: boolean
+    alignments: ColumnAlignment[]
 
-    constructor(columnIndices: number[]) {
+    constructor(columnIndices: number[], isHeader = false, alignments: ColumnAlignment[] | null = null) {
         if (columnIndices.length < 1) {
             throw new Error("columnIndices must not be empty!");
         }
 
         this.columnLengths = columnIndices;
+        this.isHeader = isHeader;
+        this.alignments = alignments ?? columnIndices.map((): ColumnAlignment => "default");
     }
 
     equals(other: SeparatorLine) {
         return this.columnLengths.toString() === other.columnLengths.toString();
     }
 
+    get width(): number {
+        return this.toStringRepr().length;
+    }
+
+    /**
+     * The positions of the line's '+' characters.
+     */
+    get boundaries(): number[] {
+        const boundaries = [0];
+        for (const length of this.columnLengths) {
+            boundaries.push(boundaries[boundaries.length - 1] + length + 1);
+        }
+
+        return boundaries;
+    }
+
+    static fromBoundaries(boundaries: number[]): SeparatorLine {
+        const lengths = [];
+        for (let i = 1; i < boundaries.length; i++) {
+            lengths.push(boundaries[i] - boundaries[i - 1] - 1);
+        }
+
+        return new SeparatorLine(lengths);
+    }
+
     toString() {
-        return `SeparatorLine([${this.columnLengths}])`
+        return `SeparatorLine([${this.columnLengths}], isHeader=${this.isHeader}, alignments=[${this.alignments}])`
     }
 
     toStringRepr() {
+        const fill = this.isHeader ? "=" : "-";
         const parts = [];
-        for (const length of this.columnLengths) {
-            parts.push("-".repeat(length));
+        for (let i = 0; i < this.columnLengths.length; i++) {
+            const length = this.columnLengths[i];
+            const alignment = this.alignments[i];
+            const markLeft = alignment == "left" || alignment == "center";
+            const markRight = alignment == "right" || alignment == "center";
+
+            if (length < 1 + Number(markLeft) + Number(markRight)) {
+                throw new Error(`Column of length ${length} is too short for alignment ${alignment}!`);
+            }
+
+            parts.push(
+                (markLeft ? ":" : "") +
+                fill.repeat(length - Number(markLeft) - Number(markRight)) +
+                (markRight ? ":" : "")
+            );
         }
 
         return `+${parts.join("+")}+`
     }
 
+    static parseAlignment(segment: string): ColumnAlignment {
+        const markLeft = segment.startsWith(":");
+        const markRight = segment.endsWith(":");
+
+        if (markLeft && markRight) return "center";
+        if (markLeft) return "left";
+        if (markRight) return "right";
+        return "default";
+    }
+
     static tryParse(line: string): SeparatorLine {
-        if (!line.match(/^\+(-+\+)+$/)) {
+        // Header separators ('+===+') mark the end of the header row, like in Pandoc.
+        // Colons at the edges of a column ('+:--+--:+:-:+') mark its alignment.
+        const isHeader = line.match(/^\+(:?=+:?\+)+$/) != null;
+        if (!isHeader && !line.match(/^\+(:?-+:?\+)+$/)) {
             throw new Error("Line doesn't match format! Should look like this: '+--+---+-+'!")
         }
 
-        const lengths = line
+        const segments = line
             .split("+")
-            .slice(1, -1)
-            .map((s) => s.length);
+            .slice(1, -1);
 
-        return new SeparatorLine(lengths);
+        return new SeparatorLine(
+            segments.map((s) => s.length),
+            isHeader,
+            segments.map((s) => SeparatorLine.parseAlignment(s)),
+        );
     }
 }
 
 
 class ContentLine {
     dataChunks: string[]
+    // How many of the table's columns each chunk spans.
+    columnSpans: number[]
 
-    constructor(dataChunks: string[]) {
+    constructor(dataChunks: string[], columnSpans: number[] | null = null) {
         this.dataChunks = dataChunks;
+        this.columnSpans = columnSpans ?? dataChunks.map(() => 1);
     }
 
     toStringRepr() {
@@ -58,30 +121,33 @@ class ContentLine {
     }
 
     toString() {
-        return `ContentLine([${this.dataChunks}])`;
+        return `ContentLine([${this.dataChunks}], columnSpans=[${this.columnSpans}])`;
     }
 
+    /**
+     * Splits the line into chunks at the separator's '+' positions. A position without a '|'
+     * means the chunks on both of its sides belong to the same cell (a cell spanning columns).
+     * Positions are display columns, so wide characters count twice.
+     */
     static tryParseAccordingToSepLine(line: string, sepLine: SeparatorLine) {
-        if (!line.startsWith("|")) {
+        const boundaries = sepLine.boundaries;
+        const columns = toDisplayColumns(line);
+
+        if (columns[0] != "|" || columns[columns.length - 1] != "|" || columns.length != boundaries[boundaries.length - 1] + 1) {
             throw new Error("Line doesn't match format! Should be '| content1 | content2 |'");
         }
 
-        // Remove |
-        line = line.substring(1);
-
         const parts = [];
-        for (const colLength of sepLine.columnLengths) {
-            const expectedLength = colLength + 1;
-            const part = line.substring(0, expectedLength); // +1 to also grab the '|'
-            if (part.length != expectedLength) {
-                throw new Error("Line doesn't match format! Should be '| content1 | content2 |'");
-            }
-            if (part[part.length - 1] != "|") {
+        const spans = [];
+        let chunkStart = 0;
+        let chunkSpan = 0;
+        for (let i = 1; i < boundaries.length; i++) {
+            chunkSpan++;
+            if (columns[boundaries[i]] != "|") {
                 continue;
             }
-            let trimmed = part;
 
-            trimmed = trimmed.substring(0, trimmed.length - 1);
+            let trimmed = columns.slice(chunkStart + 1, boundaries[i]).join("");
 
             if (trimmed[0] == ' ') {
                 trimmed = trimmed.substring(1);
@@ -92,153 +158,571 @@ class ContentLine {
             }
 
             parts.push(trimmed);
+            spans.push(chunkSpan);
 
-            line = line.substring(expectedLength);
+            chunkStart = boundaries[i];
+            chunkSpan = 0;
         }
 
-        if (line.length != 0) {
-            throw new Error("Line doesn't match format! Should be '| content1 | content2 |'");
+        return new ContentLine(parts, spans);
+    }
+}
+
+const RULE_CHARACTERS = "-=:";
+
+function isRuleCharacter(char: string) {
+    return char.length == 1 && RULE_CHARACTERS.includes(char);
+}
+
+/**
+ * A separator line which cells spanning multiple rows pass through, e.g. '| a  +----+'.
+ * Its columns are either separator runs or the content of a spanning cell.
+ */
+class SpannedSeparatorLine {
+    text: string
+
+    constructor(text: string) {
+        this.text = text;
+    }
+
+    toStringRepr() {
+        return this.text;
+    }
+
+    toString() {
+        return `SpannedSeparatorLine("${this.text}")`;
+    }
+
+    /**
+     * The display columns of '+' characters which end a separator run.
+     */
+    get boundaries(): number[] {
+        const columns = toDisplayColumns(this.text);
+        const boundaries = [0];
+        for (let i = 1; i < columns.length - 1; i++) {
+            if (columns[i] != "+") continue;
+            if (isRuleCharacter(columns[i - 1]) || isRuleCharacter(columns[i + 1])) {
+                boundaries.push(i);
+            }
         }
+        boundaries.push(columns.length - 1);
 
-        return new ContentLine(parts);
+        return boundaries;
+    }
+
+    static tryParse(line: string, width: number): SpannedSeparatorLine {
+        if (displayWidth(line) != width || !line.match(/^[+|].*[+|]$/) || !line.match(/\+[-=:]+\+/) || line.match(/^\+[-=:+]+\+$/)) {
+            throw new Error("Line doesn't match format! Should look like this: '| spanning +-----+'!");
+        }
+
+        return new SpannedSeparatorLine(line);
     }
 }
 
-function lookAheadForTableParts(lines: Iterable<string>): (SeparatorLine | ContentLine)[] {
-    const parts = [];
+type TablePart = SeparatorLine | ContentLine | SpannedSeparatorLine;
+
+function isFramedLine(line: string, width: number) {
+    return displayWidth(line) == width && line.match(/^[+|].*[+|]$/) != null;
+}
+
+/**
+ * The column boundaries of the whole table, which are the union of the boundaries of
+ * all its separator lines (a separator may skip boundaries where a cell spans columns).
+ */
+function tableBoundaries(parts: TablePart[], width: number): number[] {
+    const boundaries = new Set<number>();
+    for (const part of parts) {
+        if (part instanceof ContentLine) continue;
+        if (part instanceof SeparatorLine && part.width != width) continue;
+
+        for (const boundary of part.boundaries) {
+            boundaries.add(boundary);
+        }
+    }
+
+    return Array.from(boundaries).sort((a, b) => a - b);
+}
+
+// Blockquote (and callout) markers, indentation and list markers in front of a line.
+const LINE_PREFIX = /^([ \t]*>)*[ \t]*(([-*+]|\d+[.)])[ \t]+(\[.\][ \t]+)?)?/;
+const LIST_MARKER = /([-*+]|\d+[.)])[ \t]+(\[.\][ \t]+)?$/;
+
+function tableLinePrefix(line: string): string {
+    return line.match(LINE_PREFIX)?.[0] ?? "";
+}
+
+/**
+ * The prefix of the lines after the first one: a table starting on the line of a list item
+ * continues indented by as much as the list marker.
+ */
+function continuationPrefix(prefix: string): string {
+    return prefix.replace(LIST_MARKER, (marker) => " ".repeat(marker.length));
+}
+
+/**
+ * Collects the parts of the table starting at the first line. The lines after the first one
+ * must have its continuation prefix (see tableLinePrefix and continuationPrefix), which is left
+ * out of the parts.
+ */
+function lookAheadForTableParts(lines: Iterable<string>): TablePart[] {
+    const tableLines = [];
     let initialSeparatorLine = null;
+    let prefix = "";
 
-    for (const line of lines) {
+    // Find which lines make up the table before parsing content lines, since
+    // those need the column boundaries of all separators.
+    for (const prefixedLine of lines) {
         if (initialSeparatorLine == null) {
             // First line
+            const firstPrefix = tableLinePrefix(prefixedLine);
+            prefix = continuationPrefix(firstPrefix);
             try {
-                initialSeparatorLine = SeparatorLine.tryParse(line);
-                parts.push(initialSeparatorLine);
+                initialSeparatorLine = SeparatorLine.tryParse(prefixedLine.slice(firstPrefix.length));
+                tableLines.push(prefixedLine.slice(firstPrefix.length));
             } catch (e) {
                 break;
             }
         } else {
-            try {
-                const potentialSeparator = SeparatorLine.tryParse(line);
+            if (!prefixedLine.startsWith(prefix)) break;
 
-                // No parse error was thrown
-                parts.push(potentialSeparator);
+            const line = prefixedLine.slice(prefix.length);
+            if (isFramedLine(line, initialSeparatorLine.width)) {
+                tableLines.push(line);
                 continue;
-            } catch (e) {
-                // Parse error
             }
             try {
-                const potentialContentLine = ContentLine.tryParseAccordingToSepLine(line, initialSeparatorLine);
+                SeparatorLine.tryParse(line);
 
                 // No parse error was thrown
-
-                parts.push(potentialContentLine);
+                tableLines.push(line);
                 continue;
             } catch (e) {
                 // Parse error
             }
 
-            // Line was neither content nor separator. End look-ahead and return parts.
+            // Line was neither content nor separator. End look-ahead.
             break;
         }
     }
+
+    if (initialSeparatorLine == null) {
+        return [];
+    }
+
+    const width = initialSeparatorLine.width;
+    const separators: TablePart[] = [];
+    for (const line of tableLines) {
+        try {
+            separators.push(SeparatorLine.tryParse(line));
+        } catch (e) {
+            try {
+                separators.push(SpannedSeparatorLine.tryParse(line, width));
+            } catch (e) {
+                // Content line
+            }
+        }
+    }
+    const gridLine = SeparatorLine.fromBoundaries(tableBoundaries(separators, width));
+
+    const parts = [];
+    for (const line of tableLines) {
+        try {
+            parts.push(SeparatorLine.tryParse(line));
+            continue;
+        } catch (e) {
+            // Parse error
+        }
+        try {
+            parts.push(SpannedSeparatorLine.tryParse(line, width));
+            continue;
+        } catch (e) {
+            // Parse error
+        }
+        try {
+            parts.push(ContentLine.tryParseAccordingToSepLine(line, gridLine));
+            continue;
+        } catch (e) {
+            // Parse error
+        }
+
+        // Line was neither content nor separator. End look-ahead and return parts.
+        break;
+    }
     return parts;
 }
 
-function isValidTableSpec(parts: (SeparatorLine | ContentLine)[]): boolean {
+interface CellRect {
+    top: number
+    left: number
+    bottom: number
+    right: number
+}
+
+/**
+ * The table as a grid of display columns (see toDisplayColumns), alongside the cells found in it.
+ */
+interface TableLayout {
+    grid: string[][]
+    cells: CellRect[]
+    rowBoundaries: number[]
+    columnBoundaries: number[]
+    headerLine: number | null
+}
+
+/**
+ * Writes the parts back into lines of equal width, laying out content chunks
+ * according to the table's column boundaries.
+ */
+function partsToGrid(parts: TablePart[], boundaries: number[]): string[][] | null {
+    const lines = [];
+
+    for (const part of parts) {
+        if (!(part instanceof ContentLine)) {
+            lines.push(part.toStringRepr());
+            continue;
+        }
+
+        const chunks = [];
+        let boundaryIdx = 0;
+        for (let i = 0; i < part.dataChunks.length; i++) {
+            const nextBoundaryIdx = boundaryIdx + part.columnSpans[i];
+            if (nextBoundaryIdx >= boundaries.length) {
+                console.debug("Content line spans more columns than the table has!");
+                return null;
+            }
+
+            const chunk = part.dataChunks[i];
+            const width = boundaries[nextBoundaryIdx] - boundaries[boundaryIdx] - 1;
+            const chunkWidth = displayWidth(chunk);
+            if (chunkWidth > width) {
+                console.debug("Content length doesn't match expected column length!");
+                return null;
+            }
+
+            chunks.push(chunkWidth < width ? padEndToWidth(` ${chunk}`, width) : chunk);
+            boundaryIdx = nextBoundaryIdx;
+        }
+
+        if (boundaryIdx != boundaries.length - 1) {
+            console.debug("Content line doesn't span all columns!");
+            return null;
+        }
+
+        lines.push(`|${chunks.join("|")}|`);
+    }
+
+    return lines.map((line) => toDisplayColumns(line));
+}
+
+/**
+ * Finds the cells of a grid table by tracing their borders, starting at the
+ * top-left corner and continuing from the corners of each cell found.
+ * Returns null if the cells don't tile the whole table.
+ */
+function scanGridCells(grid: string[][]): CellRect[] | null {
+    const height = grid.length;
+    const width = grid[0].length;
+    const at = (y: number, x: number) => grid[y][x];
+
+    const scanLeft = (left: number, bottom: number, right: number) => {
+        if (at(bottom, left) != "+") return false;
+        for (let x = right - 1; x > left; x--) {
+            if (!isRuleCharacter(at(bottom, x)) && at(bottom, x) != "+") return false;
+        }
+        return true;
+    };
+
+    const scanUp = (top: number, left: number, bottom: number) => {
+        for (let y = bottom - 1; y > top; y--) {
+            if (at(y, left) != "|" && at(y, left) != "+") return false;
+        }
+        return true;
+    };
+
+    const scanDown = (top: number, left: number, right: number) => {
+        for (let y = top + 1; y < height; y++) {
+            if (at(y, right) == "+") {
+                if (scanLeft(left, y, right) && scanUp(top, left, y)) return y;
+            } else if (at(y, right) != "|") {
+                return null;
+            }
+        }
+        return null;
+    };
+
+    const scanCell = (top: number, left: number): CellRect | null => {
+        if (at(top, left) != "+") return null;
+        for (let x = left + 1; x < width; x++) {
+            if (at(top, x) == "+") {
+                const bottom = scanDown(top, left, x);
+                if (bottom != null) return { top, left, bottom, right: x };
+            } else if (!isRuleCharacter(at(top, x))) {
+                return null;
+            }
+        }
+        return null;
+    };
+
+    const cells = [];
+    const corners: [number, number][] = [[0, 0]];
+    const scannedCorners = new Set<string>();
+    while (corners.length > 0) {
+        const [top, left] = corners.shift() as [number, number];
+        const key = `${top},${left}`;
+        if (scannedCorners.has(key)) continue;
+        scannedCorners.add(key);
+
+        if (top >= height - 1 || left >= width - 1) continue;
+
+        const cell = scanCell(top, left);
+        if (cell == null) continue;
+
+        cells.push(cell);
+        corners.push([cell.top, cell.right], [cell.bottom, cell.left]);
+    }
+
+    // Every character (other than the bottom and right borders) must belong to exactly one cell.
+    const owners = Array.from({ length: height - 1 }, () => Array(width - 1).fill(false));
+    for (const cell of cells) {
+        if (cell.bottom - cell.top < 2) {
+            console.debug("Cell has no content lines!");
+            return null;
+        }
+        for (let y = cell.top; y < cell.bottom; y++) {
+            for (let x = cell.left; x < cell.right; x++) {
+                if (owners[y][x]) return null;
+                owners[y][x] = true;
+            }
+        }
+    }
+    if (owners.some((row) => row.some((owned) => !owned))) {
+        return null;
+    }
+
+    return cells;
+}
+
+function analyzeTableSpec(parts: TablePart[]): TableLayout | null {
     if (parts.length < 3) {
         console.debug("Less than 3 parts!");
-        return false;
+        return null;
     }
 
-    if (!(parts[0] instanceof SeparatorLine)) {
+    const first = parts[0];
+    const last = parts[parts.length - 1];
+    if (!(first instanceof SeparatorLine)) {
         console.debug("First line isn't a separator line!")
-        return false;
+        return null;
     }
-    if (!(parts[parts.length - 1] instanceof SeparatorLine)) {
-        console.debug("Last line isn't a separator line! It is", parts[parts.length - 1]);
-        return false;
+    if (!(last instanceof SeparatorLine)) {
+        console.debug("Last line isn't a separator line! It is", last);
+        return null;
+    }
+    if (first.isHeader) {
+        console.debug("First line can't be a header separator!");
+        return null;
     }
-    const expectedColumns = parts[0].columnLengths;
 
-    let separatorOk = false;
+    const width = first.width;
+    let headerLine = null;
 
     for (let i = 1; i < parts.length; i++) {
         const entry = parts[i];
 
         if (entry instanceof SeparatorLine) {
-            if (!separatorOk) {
+            if (parts[i - 1] instanceof SeparatorLine) {
                 console.debug("Unexpected separator!");
-                return false;
+                return null;
             }
-            if (!entry.equals(parts[0])) {
+            if (entry.width != width) {
                 console.debug("Separator line doesn't match first one!")
-                return false;
+                return null;
             }
-
-            separatorOk = false;
-        } else if (entry instanceof ContentLine) {
-            for (let i = 0; i < expectedColumns.length; i++) {
-                if (entry.dataChunks[i].length - expectedColumns[i] > 2) {
-                    console.debug("Content length doesn't match expected column length!");
-                    return false;
+            if (entry.isHeader) {
+                if (headerLine != null) {
+                    console.debug("Only one header separator is allowed!");
+                    return null;
                 }
+                headerLine = i;
             }
-
-            separatorOk = true;
         }
     }
 
-    return true;
+    const grid = partsToGrid(parts, tableBoundaries(parts, width));
+    if (grid == null) {
+        return null;
+    }
+
+    const cells = scanGridCells(grid);
+    if (cells == null) {
+        console.debug("Cells don't line up into a grid!");
+        return null;
+    }
+
+    const rowBoundaries = Array.from(new Set(cells.flatMap((c) => [c.top, c.bottom]))).sort((a, b) => a - b);
+    const columnBoundaries = Array.from(new Set(cells.flatMap((c) => [c.left, c.right]))).sort((a, b) => a - b);
+
+    if (headerLine != null && headerLine != rowBoundaries[1]) {
+        console.debug("Header separator must directly follow the first row!");
+        return null;
+    }
+
+    return { grid, cells, rowBoundaries, columnBoundaries, headerLine };
 }
 
-function validSpecToTableContent(parts: (SeparatorLine | ContentLine)[]): TableContent {
-    const rows = [];
-    let newCellContents: string[][] = [];
-    let isFirstSeparator = true;
+function isValidTableSpec(parts: TablePart[]): boolean {
+    return analyzeTableSpec(parts) != null;
+}
 
+function validSpecToTableContent(parts: TablePart[], linePrefix = "", options: SerializeOptions = {}): TableContent {
+    const layout = analyzeTableSpec(parts);
+    if (layout == null) {
+        throw new Error("Table format is invalid!");
+    }
 
-    for (const entry of parts) {
-        if (entry instanceof SeparatorLine) {
-            if (!isFirstSeparator) {
-                const cells = newCellContents.map((sArr) => sArr.join("\n")).map((celLContent) => new TableCell(celLContent));
-                rows.push(new TableRow(cells));
-            }
-            isFirstSeparator = false;
+    const { grid, rowBoundaries, columnBoundaries, headerLine } = layout;
 
-            newCellContents = [];
+    const rows: TableCell[][] = rowBoundaries.slice(1).map(() => columnBoundaries.slice(1).map(() => TableCell.covered()));
+    for (const cell of layout.cells) {
+        const row = rowBoundaries.indexOf(cell.top);
+        const col = columnBoundaries.indexOf(cell.left);
+        const sourceLines: string[] = [];
+        for (let y = cell.top + 1; y < cell.bottom; y++) {
+            sourceLines.push(grid[y].slice(cell.left + 1, cell.right).join(""));
+        }
+        const lines = cellSourceLines(sourceLines, options.maxColumnWidth ?? null);
 
-            for (let i = 0; i < entry.columnLengths.length; i++) {
-                newCellContents.push([]);
-            }
-        } else {
-            for (let i = 0; i < entry.dataChunks.length; i++) {
-                newCellContents[i].push(entry.dataChunks[i].trimEnd());
-            }
+        // A spanning cell is as tall as the rows it spans, so drop the padding below its text.
+        while (lines.length > 1 && lines[lines.length - 1] == "" && cell.bottom != rowBoundaries[row + 1]) {
+            lines.pop();
         }
+
+        rows[row][col] = new TableCell(
+            lines.join("\n"),
+            rowBoundaries.indexOf(cell.bottom) - row,
+            columnBoundaries.indexOf(cell.right) - col,
+        );
+    }
+
+    // Alignments are declared on the header separator, or on the first line if there is no header.
+    const alignmentLine = grid[headerLine ?? 0];
+    const columnAlignments: ColumnAlignment[] = [];
+    for (let col = 0; col < columnBoundaries.length - 1; col++) {
+        const segment = alignmentLine.slice(columnBoundaries[col] + 1, columnBoundaries[col + 1]).join("");
+        columnAlignments.push(segment.match(/^:?[-=]+:?$/) ? SeparatorLine.parseAlignment(segment) : "default");
     }
 
-    return new TableContent(rows);
+    const columnWidths = columnBoundaries.slice(1).map((boundary, col) => boundary - columnBoundaries[col] - 1);
+
+    return new TableContent(rows.map((cells) => new TableRow(cells)), {
+        hasHeaderRow: headerLine != null,
+        columnAlignments,
+        columnWidths,
+        linePrefix,
+    });
 }
 
-function tryParseTableFromParsedParts(parts: (SeparatorLine | ContentLine)[]): TableContent {
+/**
+ * Turns the parts into a table, which keeps the prefix its lines had in the source. The
+ * options are the ones the table was serialized with, to join the lines wrapping split.
+ */
+function tryParseTableFromParsedParts(parts: TablePart[], linePrefix = "", options: SerializeOptions = {}): TableContent {
     if (!isValidTableSpec(parts)) {
         throw new Error("Table format is invalid!");
     }
 
-    return validSpecToTableContent(parts);
+    return validSpecToTableContent(parts, linePrefix, options);
 }
 
-function tableContentToString(table: TableContent) {
-    const colWidths = [];
+interface SerializeOptions {
+    // Cell lines wider than this are wrapped at spaces. null for no limit.
+    maxColumnWidth?: number | null
+}
+
+/**
+ * Wraps a line at single spaces, so that the pieces are at most maxWidth wide (unless a
+ * single word is wider than that). Continuation pieces keep the space they were wrapped at
+ * at their start, which tells the parser to join them back onto the line before.
+ */
+function wrapLine(line: string, maxWidth: number): string[] {
+    if (displayWidth(line) <= maxWidth) {
+        return [line];
+    }
+
+    const words = line.split(" ");
+    const pieces = [];
+    let current = words[0];
+    for (let i = 1; i < words.length; i++) {
+        // Breaking next to a run of spaces would lose the extra spaces when joining back.
+        const canBreak = words[i - 1] != "" && words[i] != "" && current.trim() != "";
+        const joined = `${current} ${words[i]}`;
+        if (canBreak && displayWidth(joined) > maxWidth) {
+            pieces.push(current);
+            current = ` ${words[i]}`;
+        } else {
+            current = joined;
+        }
+    }
+    pieces.push(current);
+
+    return pieces;
+}
+
+/**
+ * The lines of a cell's content from the text between its borders: the padding space is
+ * dropped, and lines which wrapLine split are joined back. A line starting with a single
+ * space only continues the line before it where wrapping at maxWidth would have split it,
+ * so lines which start with a space of their own are kept.
+ */
+function cellSourceLines(sourceLines: string[], maxWidth: number | null): string[] {
+    const lines: string[] = [];
+    // The line as it was in the source, which is what wrapLine measured.
+    let piece = "";
+    for (let line of sourceLines) {
+        if (line[0] == " ") {
+            line = line.substring(1);
+        }
+        line = line.trimEnd();
+
+        const previous = lines[lines.length - 1];
+        const word = line.match(/^ ([^ ]+)/)?.[1];
+        if (maxWidth != null && previous && word != undefined && displayWidth(`${piece} ${word}`) > maxWidth) {
+            lines[lines.length - 1] = previous + line;
+        } else {
+            lines.push(line);
+        }
+        piece = line;
+    }
+
+    return lines;
+}
+
+function cellLines(cell: TableCell, maxWidth: number | null = null): string[] {
+    const lines = cell.content.split("\n");
+    if (maxWidth == null) {
+        return lines;
+    }
+
+    return lines.flatMap((line) => wrapLine(line, maxWidth));
+}
+
+function tableContentToString(table: TableContent, options: SerializeOptions = {}) {
+    // There are no lines to write for a table without rows.
+    if (table.rowCount == 0) {
+        return "";
+    }
+
+    table = table.normalizeSpans();
+    const linesOf = (cell: TableCell) => cellLines(cell, options.maxColumnWidth ?? null);
+
+    const colWidths: number[] = Array(table.columnCount).fill(0);
 
     for (const row of table.rows) {
         for (let colIdx = 0; colIdx < row.cells.length; colIdx++) {
-            if (colWidths.length <= colIdx) {
-                colWidths.push(0);
-            }
-            const lines = row.cells[colIdx].content.split(/\n/);
-            const lineLengths = lines.map((l) => l.length);
+            const cell = row.cells[colIdx];
+            if (cell.colSpan != 1) continue;
+
+            const lineLengths = linesOf(cell).map((l) => displayWidth(l));
             const maxLineLength = Math.max(...lineLengths);
 
             if (maxLineLength > colWidths[colIdx]) {
@@ -247,39 +731,132 @@ function tableContentToString(table: TableContent) {
         }
     }
 
-    const paddedColWidths = colWidths.map((w) => {
-        if (w == 0) return 1;
-        else return w + 2;
+    // Alignment markers need room for at least one fill character next to them.
+    for (let colIdx = 0; colIdx < colWidths.length; colIdx++) {
+        if (colWidths[colIdx] == 0 && table.columnAlignments[colIdx] != "default") {
+            colWidths[colIdx] = 1;
+        }
+    }
+
+    const paddedColWidths = colWidths.map((w, colIdx) => {
+        let minWidth = table.columnWidths[colIdx] ?? 0;
+        if (options.maxColumnWidth != null) {
+            minWidth = Math.min(minWidth, options.maxColumnWidth + 2);
+        }
+        if (w == 0) return Math.max(1, minWidth);
+        else return Math.max(w + 2, minWidth);
     });
-    const parts: (ContentLine | SeparatorLine)[] = [];
+    const rowHeights = table.rows.map((row) => Math.max(1, ...row.cells
+        .filter((cell) => cell.rowSpan == 1)
+        .map((cell) => linesOf(cell).length)
+    ));
+
+    // Spanning cells also get the borders between the columns/rows they span,
+    // anything they need beyond that goes to their last column/row.
+    const origins = [];
+    for (let rowIdx = 0; rowIdx < table.rowCount; rowIdx++) {
+        for (let colIdx = 0; colIdx < table.columnCount; colIdx++) {
+            const cell = table.getCell(rowIdx, colIdx);
+            if (!cell.isCovered) {
+                origins.push({ cell, rowIdx, colIdx });
+            }
+        }
+    }
+    const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+    for (const { cell, colIdx } of origins.filter((o) => o.cell.colSpan > 1).sort((a, b) => a.cell.colSpan - b.cell.colSpan)) {
+        const maxLineLength = Math.max(...linesOf(cell).map((l) => displayWidth(l)));
+        const needed = maxLineLength == 0 ? 1 : maxLineLength + 2;
+        const available = sum(paddedColWidths.slice(colIdx, colIdx + cell.colSpan)) + cell.colSpan - 1;
+        if (needed > available) {
+            paddedColWidths[colIdx + cell.colSpan - 1] += needed - available;
+        }
+    }
+    for (const { cell, rowIdx } of origins.filter((o) => o.cell.rowSpan > 1).sort((a, b) => a.cell.rowSpan - b.cell.rowSpan)) {
+        const needed = linesOf(cell).length;
+        const available = sum(rowHeights.slice(rowIdx, rowIdx + cell.rowSpan)) + cell.rowSpan - 1;
+        if (needed > available) {
+            rowHeights[rowIdx + cell.rowSpan - 1] += needed - available;
+        }
+    }
 
-    for (const row of table.rows) {
-        parts.push(new SeparatorLine(paddedColWidths));
-        const rowLines = row.cells.map((cell) => cell.content.split("\n"));
-        const numRows = Math.max(...rowLines.map((line) => line.length))
-
-        for (let innerRowIdx = 0; innerRowIdx < numRows; innerRowIdx++) {
-            const rowParts = [];
-            for (let colIdx = 0; colIdx < rowLines.length; colIdx++) {
-                const lines = rowLines[colIdx];
-                const part = lines[innerRowIdx] || "";
-                const paddedPart = part.padEnd(colWidths[colIdx], " ");
-
-                rowParts.push(paddedPart);
+    const xs = [0];
+    for (const width of paddedColWidths) {
+        xs.push(xs[xs.length - 1] + width + 1);
+    }
+    const ys = [0];
+    for (const height of rowHeights) {
+        ys.push(ys[ys.length - 1] + height + 1);
+    }
+
+    const grid: string[][] = Array.from({ length: ys[ys.length - 1] + 1 }, () => Array(xs[xs.length - 1] + 1).fill(" "));
+
+    // The separator closing the first row is the header separator.
+    const headerLine = table.hasHeaderRow ? ys[1] : null;
+
+    for (const { cell, rowIdx, colIdx } of origins) {
+        const [top, bottom] = [ys[rowIdx], ys[rowIdx + cell.rowSpan]];
+        const [left, right] = [xs[colIdx], xs[colIdx + cell.colSpan]];
+
+        for (const y of [top, bottom]) {
+            for (let x = left + 1; x < right; x++) {
+                grid[y][x] = y == headerLine ? "=" : "-";
+            }
+        }
+        for (const x of [left, right]) {
+            for (let y = top + 1; y < bottom; y++) {
+                grid[y][x] = "|";
+            }
+        }
+
+        for (const [lineIdx, line] of linesOf(cell).entries()) {
+            for (const [i, column] of toDisplayColumns(line).entries()) {
+                grid[top + 1 + lineIdx][left + 2 + i] = column;
             }
-            parts.push(new ContentLine(rowParts));
         }
     }
-    parts.push(new SeparatorLine(paddedColWidths));
 
-    return parts.map((v) => v.toStringRepr()).join("\n");
+    // Corners go last so they win over the borders drawn through them.
+    for (const { cell, rowIdx, colIdx } of origins) {
+        for (const y of [ys[rowIdx], ys[rowIdx + cell.rowSpan]]) {
+            for (const x of [xs[colIdx], xs[colIdx + cell.colSpan]]) {
+                grid[y][x] = "+";
+            }
+        }
+    }
+
+    // Alignments are declared on the header separator, or on the first line if there is no header.
+    const alignmentLine = grid[headerLine ?? 0];
+    for (let colIdx = 0; colIdx < table.columnCount; colIdx++) {
+        const alignment = table.columnAlignments[colIdx];
+        const [left, right] = [xs[colIdx] + 1, xs[colIdx + 1] - 1];
+        if (!alignmentLine.slice(left, right + 1).every((c) => isRuleCharacter(c))) continue;
+
+        if (alignment == "left" || alignment == "center") {
+            alignmentLine[left] = ":";
+        }
+        if (alignment == "right" || alignment == "center") {
+            alignmentLine[right] = ":";
+        }
+    }
+
+    const rest = continuationPrefix(table.linePrefix);
+    return grid.map((line, i) => (i == 0 ? table.linePrefix : rest) + line.join("")).join("\n");
+}
+
+export type {
+    TablePart,
+    SerializeOptions,
 }
 
 export {
     SeparatorLine,
     ContentLine,
+    SpannedSeparatorLine,
+    tableLinePrefix,
+    continuationPrefix,
     lookAheadForTableParts,
     isValidTableSpec,
     tryParseTableFromParsedParts,
+    cellSourceLines,
     tableContentToString,
-}
\ No newline at end of file
+}
@@ -0,0 +1,71 @@
+import { TableContent } from "./TableData";
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: "base" });
+
+function parseNumber(text: string): number | null {
+    // Allows thousands separators like in '1,000.5'.
+    const normalized = text.trim().replace(/(\d),(?=\d{3}\b)/g, "$1");
+    if (!/^[-+]?(\d+(\.\d*)?|\.\d+)$/.test(normalized)) {
+        return null;
+    }
+
+    return parseFloat(normalized);
+}
+
+/**
+ * Compares cell contents the way people would sort them: numbers by their value, and text
+ * alphabetically with runs of digits compared as numbers ('Item 2' before 'Item 10').
+ */
+function compareCellContents(a: string, b: string): number {
+    const aNumber = parseNumber(a);
+    const bNumber = parseNumber(b);
+    if (aNumber != null && bNumber != null) {
+        return aNumber - bNumber;
+    }
+
+    return collator.compare(a.trim(), b.trim());
+}
+
+/**
+ * Sorts the rows by their cells in the given column. Empty cells go last either way, and
+ * the header row (if any) stays on top. Rows with equal cells keep their order.
+ */
+function sortRowsByColumn(table: TableContent, col: number, descending = false): TableContent {
+    if (col < 0 || col >= table.columnCount) {
+        throw new Error(`There is no column ${col + 1} to sort by!`);
+    }
+
+    // Cells merged across columns move along with their row, but ones across rows can't.
+    if (table.allCells.some((cell) => !cell.isCovered && cell.rowSpan > 1)) {
+        throw new Error("Can't sort rows which are part of merged cells!");
+    }
+
+    const pinned = table.hasHeaderRow ? 1 : 0;
+    const rows = table.rows.slice(pinned);
+
+    const sorted = rows.slice().sort((a, b) => {
+        const aContent = a.cells[col].content;
+        const bContent = b.cells[col].content;
+        const aEmpty = aContent.trim() == "";
+        const bEmpty = bContent.trim() == "";
+        if (aEmpty || bEmpty) {
+            return Number(aEmpty) - Number(bEmpty);
+        }
+
+        const order = compareCellContents(aContent, bContent);
+        return descending ? -order : order;
+    });
+
+    return new TableContent([...table.rows.slice(0, pinned), ...sorted], {
+        hasHeaderRow: table.hasHeaderRow,
+        columnAlignments: table.columnAlignments.slice(),
+        columnWidths: table.columnWidths.slice(),
+        linePrefix: table.linePrefix,
+    });
+}
+
+export {
+    parseNumber,
+    compareCellContents,
+    sortRowsByColumn,
+}
@@ -0,0 +1,121 @@
+interface TextChange {
+    // Offsets into the old text.
+    from: number
+    to: number
+    insert: string
+}
+
+// Beyond this many compared line pairs, the differing lines are replaced as a whole.
+const MAX_DIFF_CELLS = 250000;
+
+/**
+ * Pairs up equal lines of both texts (their longest common subsequence), as [oldIndex, newIndex].
+ */
+function matchLines(oldLines: string[], newLines: string[]): [number, number][] {
+    const n = oldLines.length;
+    const m = newLines.length;
+    if (n * m > MAX_DIFF_CELLS) {
+        return [];
+    }
+
+    // lengths[i][j] is the length of the common subsequence of oldLines[i:] and newLines[j:].
+    const lengths = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lengths[i][j] = oldLines[i] == newLines[j]
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const matches: [number, number][] = [];
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+        if (oldLines[i] == newLines[j]) {
+            matches.push([i, j]);
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+
+    return matches;
+}
+
+/**
+ * The changes turning oldText into newText, replacing whole lines. Lines which stay the same
+ * aren't part of any change, so e.g. typing in a table cell only touches the lines of its row.
+ */
+function diffLines(oldText: string, newText: string): TextChange[] {
+    if (oldText == newText) {
+        return [];
+    }
+
+    const oldLines = oldText.split("\n");
+    const newLines = newText.split("\n");
+
+    const lineStarts = [0];
+    for (const line of oldLines) {
+        lineStarts.push(lineStarts[lineStarts.length - 1] + line.length + 1);
+    }
+
+    // Lines at the start and the end are usually the same, which keeps the matching cheap.
+    let prefix = 0;
+    while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] == newLines[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (suffix < oldLines.length - prefix && suffix < newLines.length - prefix
+        && oldLines[oldLines.length - 1 - suffix] == newLines[newLines.length - 1 - suffix]) {
+        suffix++;
+    }
+
+    const matches = matchLines(oldLines.slice(prefix, oldLines.length - suffix), newLines.slice(prefix, newLines.length - suffix))
+        .map(([i, j]): [number, number] => [i + prefix, j + prefix]);
+    matches.push([oldLines.length - suffix, newLines.length - suffix]);
+
+    const changes: TextChange[] = [];
+    let oldIndex = prefix;
+    let newIndex = prefix;
+    for (const [oldMatch, newMatch] of matches) {
+        if (oldMatch > oldIndex || newMatch > newIndex) {
+            changes.push(replaceLines(oldText, lineStarts, oldIndex, oldMatch, newLines.slice(newIndex, newMatch)));
+        }
+        oldIndex = oldMatch + 1;
+        newIndex = newMatch + 1;
+    }
+
+    return changes;
+}
+
+/**
+ * The change replacing the old lines [first, end) with the given ones.
+ */
+function replaceLines(oldText: string, lineStarts: number[], first: number, end: number, lines: string[]): TextChange {
+    const lineCount = lineStarts.length - 1;
+    if (end < lineCount) {
+        return { from: lineStarts[first], to: lineStarts[end], insert: lines.map((line) => line + "\n").join("") };
+    }
+
+    // The last line has no line break after it, so the one before it has to go instead.
+    if (first == end) {
+        return { from: oldText.length, to: oldText.length, insert: "\n" + lines.join("\n") };
+    }
+    if (lines.length == 0) {
+        return { from: Math.max(lineStarts[first] - 1, 0), to: oldText.length, insert: "" };
+    }
+
+    return { from: lineStarts[first], to: oldText.length, insert: lines.join("\n") };
+}
+
+export type {
+    TextChange,
+}
+
+export {
+    diffLines,
+}
@@ -2,6 +2,11 @@
 export const EDITOR_TABLE_CLASS = "obsidian-grid-tables-table";
 export const EDITOR_TABLE_ROW_CLASS = "obsidian-grid-tables-row";
 export const EDITOR_TABLE_CELL_CLASS = "obsidian-grid-tables-cell";
+export const EDITOR_TABLE_CELL_PREVIEW_CLASS = "obsidian-grid-tables-cell-preview";
+export const EDITOR_TABLE_SELECTED_CELL_CLASS = "obsidian-grid-tables-selected-cell";
+export const EDITOR_TABLE_COVERED_CELL_CLASS = "obsidian-grid-tables-covered-cell";
+export const EDITOR_TABLE_FORMULA_CLASS = "obsidian-grid-tables-formula";
+export const EDITOR_TABLE_FORMULA_ERROR_CLASS = "obsidian-grid-tables-formula-error";
 
 export const EDITOR_TABLE_CONTAINER_CLASS = "obsidian-grid-tables-container";
 
@@ -0,0 +1,88 @@
+import { expandToSpans, moveHead, rangeBetween, rangeContains, rangePositions, rangeTable, rangeValues } from "../src/CellSelection";
+import { TableCell, TableContent, TableRow } from "../src/TableData";
+
+function table(...rows: string[][]) {
+    return new TableContent(rows.map((cells) => new TableRow(cells.map((content) => new TableCell(content)))));
+}
+
+const grid = table(
+    ["a", "b", "c"],
+    ["d", "e", "f"],
+    ["g", "h", "i"],
+);
+
+// 'e' spans the middle and right columns of the two bottom rows.
+const merged = grid.mergeRight(1, 1).mergeRight(2, 1).mergeDown(1, 1);
+
+describe("Cell ranges", () => {
+    test("The range between two cells doesn't depend on their order", () => {
+        const range = { top: 0, left: 1, bottom: 2, right: 2 };
+        expect(rangeBetween({ row: 0, col: 1 }, { row: 2, col: 2 })).toEqual(range);
+        expect(rangeBetween({ row: 2, col: 1 }, { row: 0, col: 2 })).toEqual(range);
+    })
+
+    test("Contains and positions", () => {
+        const range = rangeBetween({ row: 1, col: 0 }, { row: 2, col: 1 });
+        expect(rangeContains(range, 1, 1)).toBe(true);
+        expect(rangeContains(range, 0, 1)).toBe(false);
+        expect(rangeContains(range, 1, 2)).toBe(false);
+        expect(rangePositions(range)).toEqual([
+            { row: 1, col: 0 }, { row: 1, col: 1 },
+            { row: 2, col: 0 }, { row: 2, col: 1 },
+        ]);
+    })
+
+    test("Values of a range", () => {
+        expect(rangeValues(grid, rangeBetween({ row: 1, col: 1 }, { row: 2, col: 2 }))).toEqual([["e", "f"], ["h", "i"]]);
+        expect(rangeValues(merged, rangeBetween({ row: 1, col: 1 }, { row: 2, col: 2 }))).toEqual([["e\nf\nh\ni", ""], ["", ""]]);
+    })
+})
+
+describe("Tables of ranges", () => {
+    test("Keeps the merged cells and column formatting in the range", () => {
+        const formatted = new TableContent(merged.rows.slice(), {
+            hasHeaderRow: true,
+            columnAlignments: ["left", "center", "right"],
+            columnWidths: [3, null, 5],
+        });
+        const part = rangeTable(formatted, { top: 1, left: 1, bottom: 2, right: 2 });
+        expect(part.rowCount).toEqual(2);
+        expect(part.getCell(0, 0)).toEqual(new TableCell("e\nf\nh\ni", 2, 2));
+        expect(part.getCell(1, 1).isCovered).toBe(true);
+        expect(part.columnAlignments).toEqual(["center", "right"]);
+        expect(part.columnWidths).toEqual([null, 5]);
+        // Only the first row is a header row.
+        expect(part.hasHeaderRow).toBe(false);
+        expect(rangeTable(formatted, { top: 0, left: 0, bottom: 0, right: 0 }).hasHeaderRow).toBe(true);
+    })
+})
+
+describe("Merged cells", () => {
+    test("Ranges grow over merged cells they cut through", () => {
+        expect(expandToSpans(rangeBetween({ row: 0, col: 0 }, { row: 1, col: 1 }), merged))
+            .toEqual({ top: 0, left: 0, bottom: 2, right: 2 });
+        expect(expandToSpans(rangeBetween({ row: 2, col: 2 }, { row: 2, col: 2 }), merged))
+            .toEqual({ top: 1, left: 1, bottom: 2, right: 2 });
+    })
+
+    test("Ranges without merged cells stay the same", () => {
+        const range = rangeBetween({ row: 0, col: 0 }, { row: 1, col: 1 });
+        expect(expandToSpans(range, grid)).toEqual(range);
+    })
+})
+
+describe("Moving the selection head", () => {
+    test("Moves one cell and stops at the border", () => {
+        expect(moveHead({ row: 0, col: 0 }, 0, 1, grid)).toEqual({ row: 0, col: 1 });
+        expect(moveHead({ row: 0, col: 0 }, -1, 0, grid)).toEqual({ row: 0, col: 0 });
+        expect(moveHead({ row: 2, col: 2 }, 1, 0, grid)).toEqual({ row: 2, col: 2 });
+    })
+
+    test("Steps over merged cells", () => {
+        expect(moveHead({ row: 1, col: 1 }, 0, -1, merged)).toEqual({ row: 1, col: 0 });
+        expect(moveHead({ row: 0, col: 1 }, 1, 0, merged)).toEqual({ row: 1, col: 1 });
+        expect(moveHead({ row: 1, col: 1 }, -1, 0, merged)).toEqual({ row: 0, col: 1 });
+        // Out of the merged cell to the right is the border of the table.
+        expect(moveHead({ row: 1, col: 1 }, 0, 1, merged)).toEqual({ row: 1, col: 2 });
+    })
+})
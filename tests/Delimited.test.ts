@@ -0,0 +1,38 @@
+import { delimitedToTableContent, detectDelimiter, parseDelimited } from "../src/Delimited";
+import { TableCell, TableContent, TableRow } from "../src/TableData";
+
+describe("parseDelimited", () => {
+    it.each([
+        ["a\tb\nc\td\n", "\t", [["a", "b"], ["c", "d"]]],
+        ["a,b\r\nc,d", ",", [["a", "b"], ["c", "d"]]],
+        ["a,,c", ",", [["a", "", "c"]]],
+        ['"a, b",c', ",", [["a, b", "c"]]],
+        ['"say ""hi""",x', ",", [['say "hi"', "x"]]],
+        ['"two\nlines"\tx\ny\tz', "\t", [["two\nlines", "x"], ["y", "z"]]],
+        ['a"b,c', ",", [['a"b', "c"]]],
+    ])("%j", (text, delimiter, expectedRows) => {
+        expect(parseDelimited(text, delimiter)).toEqual(expectedRows);
+    })
+})
+
+describe("detectDelimiter", () => {
+    it.each([
+        ["a\tb\nc\td", "\t"],
+        ["a\tb", "\t"],
+        ["a,b\nc,d", ","],
+        ['"x\ny",b\nc,d', ","],
+        ["a,b", null],
+        ["Hello, world.\nHow are you?", null],
+        ["just text", null],
+        ["a\tb\nc", null],
+    ])("%j", (text, expectedDelimiter) => {
+        expect(detectDelimiter(text)).toEqual(expectedDelimiter);
+    })
+})
+
+test("delimitedToTableContent", () => {
+    expect(delimitedToTableContent([["a", "b"], ["c"]])).toEqual(new TableContent([
+        new TableRow([new TableCell("a"), new TableCell("b")]),
+        new TableRow([new TableCell("c"), new TableCell("")]),
+    ]));
+})
@@ -0,0 +1,45 @@
+import { displayWidth, padEndToWidth, toDisplayColumns } from "../src/DisplayWidth";
+
+describe("displayWidth", () => {
+    it.each([
+        ["abc", 3],
+        ["日本語", 6],
+        ["한국어", 6],
+        ["ｆｕｌｌ", 8],
+        ["e\u0301", 1],
+        ["a\u200Bb", 2],
+        ["🙂", 2],
+        ["\u{1F44D}\u{1F3FD}", 2],
+        ["\u{1F468}\u200D\u{1F469}\u200D\u{1F467}", 6],
+        ["\u2764\uFE0F", 2],
+        ["\u2764", 1],
+        ["\u{1F44D}\uFE0F", 2],
+        ["", 0],
+    ])("%s", (text, expectedWidth) => {
+        expect(displayWidth(text)).toEqual(expectedWidth);
+    })
+})
+
+describe("toDisplayColumns", () => {
+    test("Wide characters are followed by an empty column", () => {
+        expect(toDisplayColumns("a日b")).toEqual(["a", "日", "", "b"]);
+    })
+
+    test("Zero-width characters join the previous character", () => {
+        expect(toDisplayColumns("e\u0301日\u0301")).toEqual(["e\u0301", "日\u0301", ""]);
+    })
+
+    test("The emoji presentation selector makes the character before it wide", () => {
+        expect(toDisplayColumns("a\u2764\uFE0Fb")).toEqual(["a", "\u2764\uFE0F", "", "b"]);
+    })
+
+    test("Joining gives back the text", () => {
+        const text = "mixed 日本語 and 🙂 e\u0301";
+        expect(toDisplayColumns(text).join("")).toEqual(text);
+    })
+})
+
+test("padEndToWidth", () => {
+    expect(padEndToWidth("日本", 6)).toEqual("日本  ");
+    expect(padEndToWidth("日本", 3)).toEqual("日本");
+})
@@ -0,0 +1,138 @@
+import { columnName, formatFormulaResult, FormulaEvaluator, isFormula } from "../src/Formula";
+import { TableCell, TableContent, TableRow } from "../src/TableData";
+
+function table(...rows: string[][]) {
+    return new TableContent(rows.map((cells) => new TableRow(cells.map((content) => new TableCell(content)))), { hasHeaderRow: true });
+}
+
+// Evaluates a formula placed in an extra row below the given ones.
+function evaluate(formula: string, ...rows: string[][]) {
+    const width = Math.max(1, ...rows.map((r) => r.length));
+    const withFormula = table(...rows.map((r) => [...r, ...Array(width - r.length).fill("")]), [formula, ...Array(width - 1).fill("")]);
+    const result = new FormulaEvaluator(withFormula).evaluate(rows.length, 0);
+    if (!result) throw new Error("Not a formula!");
+
+    return formatFormulaResult(result);
+}
+
+const inventory: string[][] = [
+    ["Item", "Count", "Price"],
+    ["Apples", "3", "0.5"],
+    ["Pears", "4", "1.25"],
+    ["Plums", "", "2"],
+];
+
+describe("Formulas", () => {
+    test("Recognizes formulas", () => {
+        expect(isFormula("=1+1")).toBe(true);
+        expect(isFormula("  =A1")).toBe(true);
+        expect(isFormula("=")).toBe(false);
+        expect(isFormula("1 = 1")).toBe(false);
+    })
+
+    test("Text which doesn't parse isn't a formula", () => {
+        expect(isFormula("= see above")).toBe(false);
+        expect(isFormula("==highlight==")).toBe(false);
+        expect(isFormula("=1 +")).toBe(false);
+        expect(isFormula("=(1")).toBe(false);
+        expect(isFormula("=1 $ 2")).toBe(false);
+        expect(new FormulaEvaluator(table(["==highlight=="])).evaluate(0, 0)).toBeNull();
+    })
+
+    test("Column names", () => {
+        expect([0, 1, 25, 26, 27, 51, 52, 701, 702].map(columnName)).toEqual(["A", "B", "Z", "AA", "AB", "AZ", "BA", "ZZ", "AAA"]);
+    })
+
+    test("Arithmetic and precedence", () => {
+        expect(evaluate("=1 + 2 * 3")).toEqual("7");
+        expect(evaluate("=(1 + 2) * 3")).toEqual("9");
+        expect(evaluate("=2^3^2")).toEqual("512");
+        expect(evaluate("=-2^2")).toEqual("4");
+        expect(evaluate("=10 / 4 - -1")).toEqual("3.5");
+        expect(evaluate("=0.1 + 0.2")).toEqual("0.3");
+    })
+
+    test("Cell references count the header row", () => {
+        expect(evaluate("=B2 * C2 + B3 * C3", ...inventory)).toEqual("6.5");
+        // Empty cells are 0.
+        expect(evaluate("=B4 + 1", ...inventory)).toEqual("1");
+        expect(evaluate("=b2", ...inventory)).toEqual("3");
+    })
+
+    test("Functions over ranges skip text and empty cells", () => {
+        expect(evaluate("=SUM(B2:B4)", ...inventory)).toEqual("7");
+        expect(evaluate("=SUM(B:B)", ...inventory)).toEqual("7");
+        expect(evaluate("=AVG(B:B)", ...inventory)).toEqual("3.5");
+        expect(evaluate("=average(C2:C4)", ...inventory)).toEqual("1.25");
+        expect(evaluate("=COUNT(B1:C4)", ...inventory)).toEqual("5");
+        expect(evaluate("=MAX(B2:C4, 10)", ...inventory)).toEqual("10");
+        expect(evaluate("=MIN(C4:C2)", ...inventory)).toEqual("0.5");
+        expect(evaluate("=ROUND(AVG(C:C), 1) + ABS(-1)", ...inventory)).toEqual("2.3");
+    })
+
+    test("Columns by their header", () => {
+        expect(evaluate("=AVG(Count)", ...inventory)).toEqual("3.5");
+        expect(evaluate("=SUM(price) * 2", ...inventory)).toEqual("7.5");
+        expect(evaluate("=Count", ...inventory)).toEqual("#VALUE!");
+        expect(evaluate("=SUM(Weight)", ...inventory)).toEqual("#NAME?");
+    })
+
+    test("Just a word which isn't a header is text", () => {
+        const notes = table(["Item", "Done"], ["Apples", "=yes"], ["Pears", "=TODO"], ["", "=SUM(B:B)"]);
+        const evaluator = new FormulaEvaluator(notes);
+        expect(evaluator.evaluate(1, 1)).toBeNull();
+        expect(evaluator.evaluate(2, 1)).toBeNull();
+        expect(evaluator.evaluate(3, 1)).toEqual({ value: 0 });
+        expect(evaluate("=yes + 1", ...inventory)).toEqual("#NAME?");
+        expect(evaluate("=A2", ["Done"], ["=yes"])).toEqual("#VALUE!");
+    })
+
+    test("Formulas can refer to other formulas", () => {
+        const totals = table(
+            ["Count", "Total"],
+            ["2", "=A2 * 10"],
+            ["3", "=A3 * 10"],
+            ["", "=SUM(B:B)"],
+        );
+        const evaluator = new FormulaEvaluator(totals);
+        expect(evaluator.evaluate(3, 1)).toEqual({ value: 50 });
+        expect(evaluator.evaluate(0, 0)).toBeNull();
+    })
+
+    test("Errors", () => {
+        expect(evaluate("=1 / 0")).toEqual("#DIV/0!");
+        expect(evaluate("=AVG(B2:B3)", ["", ""], ["", ""])).toEqual("#DIV/0!");
+        expect(evaluate("=A2", ["x"], ["text"])).toEqual("#VALUE!");
+        expect(evaluate("=Z99")).toEqual("#REF!");
+        expect(evaluate("=FOO(1)")).toEqual("#NAME?");
+        expect(evaluate("=total * 2")).toEqual("#NAME?");
+        expect(evaluate("=A1:B2")).toEqual("#VALUE!");
+        expect(evaluate("=ABS(1, 2)")).toEqual("#ERROR!");
+    })
+
+    test("Errors carry over to formulas referring to them", () => {
+        const evaluator = new FormulaEvaluator(table(["=1/0", "=A1 + 1"]));
+        expect(evaluator.evaluate(0, 1)).toEqual({ error: "#DIV/0!", message: "A1: Division by zero" });
+    })
+
+    test("Circular references", () => {
+        const evaluator = new FormulaEvaluator(table(
+            ["=B1", "=A1", "=A1 + 1"],
+            ["=A2", "=SUM(A1:B1)", "1"],
+        ));
+        expect(evaluator.evaluate(0, 0)).toMatchObject({ error: "#CIRC!" });
+        expect(evaluator.evaluate(0, 1)).toMatchObject({ error: "#CIRC!" });
+        expect(evaluator.evaluate(0, 2)).toMatchObject({ error: "#CIRC!" });
+        expect(evaluator.evaluate(1, 0)).toMatchObject({ error: "#CIRC!" });
+        expect(evaluator.evaluate(1, 1)).toMatchObject({ error: "#CIRC!" });
+    })
+
+    test("A formula referring to its own column leaves itself out, but not other formulas", () => {
+        const evaluator = new FormulaEvaluator(table(
+            ["1"],
+            ["=A3 * 2"],
+            ["=SUM(A:A)"],
+        ));
+        expect(evaluator.evaluate(2, 0)).toMatchObject({ error: "#CIRC!" });
+    })
+})
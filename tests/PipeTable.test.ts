@@ -0,0 +1,136 @@
+import { TableCell, TableContent, TableRow } from "../src/TableData";
+import { findPipeTable, splitPipeRow, tableContentToPipeTable, tryParsePipeTable } from "../src/PipeTable";
+import { tableContentToString } from "../src/TableSerde";
+
+describe("splitPipeRow", () => {
+    it.each([
+        ["| a | b |", ["a", "b"]],
+        ["a | b", ["a", "b"]],
+        ["| a | b", ["a", "b"]],
+        ["|  | b |", ["", "b"]],
+        ["| a \\| b | c |", ["a | b", "c"]],
+        ["| a | b \\|", ["a", "b |"]],
+        ["| a \\\\| b |", ["a \\", "b"]],
+        ["| a \\\\\\| b |", ["a \\| b"]],
+        ["| a \\\\|", ["a \\"]],
+        ["| a \\b |", ["a \\b"]],
+    ])("'%s'", (line, expectedCells) => {
+        expect(splitPipeRow(line)).toEqual(expectedCells);
+    })
+})
+
+describe("findPipeTable", () => {
+    const lines = [
+        "Some text",
+        "",
+        "| a | b |",
+        "|---|---|",
+        "| c | d |",
+        "",
+        "a | b without a table",
+    ];
+
+    test("Cursor in the table", () => {
+        expect(findPipeTable(lines, 2)).toEqual([2, 4]);
+        expect(findPipeTable(lines, 4)).toEqual([2, 4]);
+    })
+
+    test("Cursor outside of a table", () => {
+        expect(findPipeTable(lines, 0)).toBeNull();
+        expect(findPipeTable(lines, 6)).toBeNull();
+    })
+})
+
+describe("tryParsePipeTable", () => {
+    test("Alignments and escaped pipes", () => {
+        const table = tryParsePipeTable([
+            "| Name | Value |  |",
+            "| :--- | ---: | :-: |",
+            "| a \\| b | 1 | x |",
+            "| short |",
+        ]);
+        expect(table).toEqual(new TableContent([
+            new TableRow([new TableCell("Name"), new TableCell("Value"), new TableCell("")]),
+            new TableRow([new TableCell("a | b"), new TableCell("1"), new TableCell("x")]),
+            new TableRow([new TableCell("short"), new TableCell(""), new TableCell("")]),
+        ], { hasHeaderRow: true, columnAlignments: ["left", "right", "center"] }));
+    })
+
+    test("Missing delimiter row", () => {
+        expect(() => tryParsePipeTable(["| a | b |", "| c | d |"])).toThrow();
+    })
+
+    test("Mismatched delimiter row", () => {
+        expect(() => tryParsePipeTable(["| a | b |", "| --- |"])).toThrow();
+    })
+
+    test("To grid table", () => {
+        const table = tryParsePipeTable([
+            "| a | b |",
+            "|:--|---|",
+            "| c | d |",
+        ]);
+        expect(tableContentToString(table)).toEqual(
+            "+---+---+\n" +
+            "| a | b |\n" +
+            "+:==+===+\n" +
+            "| c | d |\n" +
+            "+---+---+"
+        );
+    })
+})
+
+describe("tableContentToPipeTable", () => {
+    test("Round trip", () => {
+        const source = [
+            "| Name   | Value |",
+            "| :----- | ----: |",
+            "| a \\| b | 日本  |",
+        ];
+        expect(tableContentToPipeTable(tryParsePipeTable(source))).toEqual(source.join("\n"));
+    })
+
+    test("Backslashes before pipes are escaped", () => {
+        const table = new TableContent([new TableRow([new TableCell("a\\|b"), new TableCell("c\\")])], { hasHeaderRow: true });
+        const pipeTable = tableContentToPipeTable(table);
+        expect(pipeTable.split("\n")[0]).toEqual("| a\\\\\\|b | c\\  |");
+        expect(tryParsePipeTable(pipeTable.split("\n"))).toEqual(table);
+    })
+
+    test("Tables without a header get an empty one", () => {
+        const table = new TableContent([new TableRow([new TableCell("a"), new TableCell("b")])]);
+        expect(tableContentToPipeTable(table)).toEqual(
+            "|     |     |\n" +
+            "| --- | --- |\n" +
+            "| a   | b   |"
+        );
+    })
+
+    test("Multiple lines", () => {
+        const table = new TableContent([new TableRow([new TableCell("one\ntwo")])], { hasHeaderRow: true });
+        expect(() => tableContentToPipeTable(table)).toThrow("The cell in row 1, column 1 has multiple lines, which pipe tables can't contain!");
+        expect(tableContentToPipeTable(table, { joinLinesWith: "<br>" })).toEqual(
+            "| one<br>two |\n" +
+            "| ---------- |"
+        );
+    })
+
+    test("Tables in blockquotes and list items", () => {
+        const rows = [new TableRow([new TableCell("a"), new TableCell("b")]), new TableRow([new TableCell("c"), new TableCell("d")])];
+        expect(tableContentToPipeTable(new TableContent(rows, { hasHeaderRow: true, linePrefix: "> " }))).toEqual(
+            "> | a   | b   |\n" +
+            "> | --- | --- |\n" +
+            "> | c   | d   |"
+        );
+        expect(tableContentToPipeTable(new TableContent(rows, { hasHeaderRow: true, linePrefix: "- " }))).toEqual(
+            "- | a   | b   |\n" +
+            "  | --- | --- |\n" +
+            "  | c   | d   |"
+        );
+    })
+
+    test("Merged cells", () => {
+        const table = new TableContent([new TableRow([new TableCell("a", 1, 2), TableCell.covered()])]);
+        expect(() => tableContentToPipeTable(table)).toThrow();
+    })
+})
@@ -0,0 +1,132 @@
+/**
+ * @jest-environment jsdom
+ */
+import { findTablesInLines, renderTable, renderTablesInSection, stripLinePrefix } from "../src/ReadingView";
+import { TableContent } from "../src/TableData";
+
+const tableLines = [
+    "+---+-----+",
+    "| a | *b* |",
+    "+===+=====+",
+    "| c | d   |",
+    "+---+-----+",
+];
+
+// Like Obsidian renders them: lines of a paragraph end in '<br>' and a newline.
+function renderedLines(lines: string[]): string {
+    return lines.map((l) => l.replace("*b*", "<em>b</em>")).join("<br>\n");
+}
+
+function section(html: string): HTMLElement {
+    const div = document.createElement("div");
+    div.innerHTML = html;
+    return div;
+}
+
+function render(el: HTMLElement, lines: string[]): number {
+    return renderTablesInSection(el, lines, (table: TableContent) => renderTable(table, (td, content) => {
+        td.textContent = content;
+    }));
+}
+
+function renderedTable(el: HTMLElement): string[][] {
+    return Array.from(el.querySelectorAll("tr")).map((tr) => Array.from(tr.children).map((td) => td.textContent ?? ""));
+}
+
+describe("Finding tables in a section's source", () => {
+    test("Strips the prefixes of blockquotes, callouts and lists", () => {
+        expect(stripLinePrefix("> > | a |")).toEqual("| a |");
+        expect(stripLinePrefix("- +---+")).toEqual("+---+");
+        expect(stripLinePrefix("12. +---+")).toEqual("+---+");
+        expect(stripLinePrefix("    | a |")).toEqual("| a |");
+        expect(stripLinePrefix("+---+")).toEqual("+---+");
+    })
+
+    test("Finds tables after text", () => {
+        const tables = findTablesInLines(["Some text", ...tableLines.map((l) => "> " + l), "more text"]);
+        expect(tables.length).toEqual(1);
+        expect(tables[0].line).toEqual(1);
+        expect(tables[0].lines).toEqual(tableLines);
+        expect(tables[0].content.getCell(0, 1).content).toEqual("*b*");
+    })
+})
+
+describe("Rendering tables in reading view", () => {
+    test("A paragraph which is just a table", () => {
+        const el = section(`<p>${renderedLines(tableLines)}</p>`);
+        expect(render(el, tableLines)).toEqual(1);
+        expect(el.children.length).toEqual(1);
+        expect(el.children[0].tagName).toEqual("TABLE");
+        expect(el.querySelectorAll("th").length).toEqual(2);
+        expect(renderedTable(el)).toEqual([["a", "*b*"], ["c", "d"]]);
+    })
+
+    test("Text around the table stays in paragraphs of its own", () => {
+        const el = section(`<p>${renderedLines(["Before", ...tableLines, "After"])}</p>`);
+        expect(render(el, ["Before", ...tableLines, "After"])).toEqual(1);
+        expect(Array.from(el.children).map((c) => c.tagName)).toEqual(["P", "TABLE", "P"]);
+        expect(el.children[0].innerHTML).toEqual("Before");
+        expect(el.children[2].textContent).toEqual("After");
+    })
+
+    test("Strict line breaks", () => {
+        const el = section(`<p>Before\n${tableLines.join("\n")}</p>`);
+        expect(render(el, ["Before", ...tableLines])).toEqual(1);
+        expect(Array.from(el.children).map((c) => c.tagName)).toEqual(["P", "TABLE"]);
+        expect(el.children[0].textContent?.trim()).toEqual("Before");
+    })
+
+    test("Blockquotes", () => {
+        const el = section(`<blockquote>\n<p>${renderedLines(tableLines)}</p>\n</blockquote>`);
+        expect(render(el, tableLines.map((l) => "> " + l))).toEqual(1);
+        expect(el.querySelector("blockquote > table")).not.toBeNull();
+        expect(el.querySelector("p")).toBeNull();
+    })
+
+    test("Callouts", () => {
+        const el = section(
+            `<div class="callout" data-callout="note"><div class="callout-title"><div class="callout-title-inner">Note</div></div>` +
+            `<div class="callout-content"><p>${renderedLines(tableLines)}</p></div></div>`
+        );
+        expect(render(el, ["> [!note]", ...tableLines.map((l) => "> " + l)])).toEqual(1);
+        expect(el.querySelector(".callout-content > table")).not.toBeNull();
+        expect(el.querySelector(".callout-title")?.textContent).toEqual("Note");
+    })
+
+    test("List items", () => {
+        const source = ["- First", "- " + tableLines[0], ...tableLines.slice(1).map((l) => "  " + l), "  After", "- Last"];
+        const el = section(`<ul>\n<li>First</li>\n<li>${renderedLines([...tableLines, "After"])}</li>\n<li>Last</li>\n</ul>`);
+        expect(render(el, source)).toEqual(1);
+
+        const item = el.querySelectorAll("li")[1];
+        expect(item.children[0].tagName).toEqual("TABLE");
+        expect(item.textContent?.endsWith("After")).toBe(true);
+        expect(el.querySelectorAll("li")[0].textContent).toEqual("First");
+    })
+
+    test("List items with nested lists", () => {
+        const source = ["- " + tableLines[0], ...tableLines.slice(1).map((l) => "  " + l), "  - Nested"];
+        const el = section(`<ul>\n<li>${renderedLines(tableLines)}\n<ul>\n<li>Nested</li>\n</ul>\n</li>\n</ul>`);
+        expect(render(el, source)).toEqual(1);
+        expect(el.querySelector("li > table")).not.toBeNull();
+        expect(el.querySelector("li > ul > li")?.textContent).toEqual("Nested");
+    })
+
+    test("Several tables in a section", () => {
+        const source = [...tableLines, "Between", ...tableLines];
+        const el = section(`<p>${renderedLines(source)}</p>`);
+        expect(render(el, source)).toEqual(2);
+        expect(Array.from(el.children).map((c) => c.tagName)).toEqual(["TABLE", "P", "TABLE"]);
+    })
+
+    test("Tables after an 'off' marker stay text", () => {
+        const source = ["<!-- grid-table: off -->", ...tableLines];
+        expect(render(section(`<p>${renderedLines(tableLines)}</p>`), source)).toEqual(0);
+    })
+
+    test("Leaves text which doesn't match the source alone", () => {
+        const el = section("<p>Something else</p>");
+        expect(render(el, tableLines)).toEqual(0);
+        expect(el.innerHTML).toEqual("<p>Something else</p>");
+    })
+})
@@ -0,0 +1,104 @@
+import { Text } from "@codemirror/state";
+import { findFramedLines, parseMisalignedTable, parseTableSource, tableBorderRanges } from "../src/SourceMode";
+import { tableContentToString } from "../src/TableSerde";
+
+const aligned = [
+    "+-----+-----+",
+    "| a   | b   |",
+    "+=====+:===:+",
+    "| c   | d   |",
+    "| c2  |     |",
+    "+-----+-----+",
+];
+
+function marked(source: string, linePrefix = ""): string[] {
+    return tableBorderRanges(source, linePrefix).map((r) => source.slice(r.from, r.to));
+}
+
+describe("Border ranges", () => {
+    test("Separator lines and the column boundaries", () => {
+        const source = aligned.slice(0, 3).join("\n");
+        expect(marked(source)).toEqual(["+-----+-----+", "|", "|", "|", "+=====+:===:+"]);
+    })
+
+    test("Pipes in the content aren't borders", () => {
+        const source = ["+-------+", "| a | b |", "+-------+"].join("\n");
+        expect(marked(source)).toEqual(["+-------+", "|", "|", "+-------+"]);
+    })
+
+    test("Separators of spanning cells", () => {
+        const source = [
+            "+---+---+",
+            "| a | b |",
+            "|   +---+",
+            "|   | c |",
+            "+---+---+",
+        ].join("\n");
+        expect(marked(source)).toEqual(["+---+---+", "|", "|", "|", "|", "+---+", "|", "|", "|", "+---+---+"]);
+    })
+
+    test("Prefixes and wide characters", () => {
+        const source = ["> +----+", "> | 日 |", "> +----+"].join("\n");
+        const ranges = tableBorderRanges(source, "> ");
+        expect(ranges.map((r) => source.slice(r.from, r.to))).toEqual(["+----+", "|", "|", "+----+"]);
+        expect(ranges[0].from).toEqual(2);
+    })
+})
+
+describe("Misaligned tables", () => {
+    test("Reads tables after typing into them", () => {
+        const table = parseMisalignedTable([
+            "+-----+-----+",
+            "| apple | b   |",
+            "+=====+:===:+",
+            "| c   | dd |",
+            "| c2  |     |",
+            "+-----+-----+",
+        ]);
+        expect(table?.rows.map((row) => row.cells.map((cell) => cell.content))).toEqual([["apple", "b"], ["c\nc2", "dd\n"]]);
+        expect(table?.hasHeaderRow).toBe(true);
+        expect(table?.columnAlignments).toEqual(["default", "center"]);
+        expect(table && tableContentToString(table)).toEqual([
+            "+-------+-----+",
+            "| apple | b   |",
+            "+=======+:===:+",
+            "| c     | dd  |",
+            "| c2    |     |",
+            "+-------+-----+",
+        ].join("\n"));
+    })
+
+    test("Keeps the line prefix", () => {
+        const table = parseMisalignedTable(["> +---+", "> | abc |", "> +---+"]);
+        expect(table && tableContentToString(table)).toEqual("> +-----+\n> | abc |\n> +-----+");
+
+        const item = parseMisalignedTable(["- +---+", "  | abc |", "  +---+"]);
+        expect(item && tableContentToString(item)).toEqual("- +-----+\n  | abc |\n  +-----+");
+    })
+
+    test("Gives up on what it can't read", () => {
+        expect(parseMisalignedTable(["+---+---+", "| a |", "+---+---+"])).toBeNull();
+        expect(parseMisalignedTable(["+---+", "| a |"])).toBeNull();
+        expect(parseMisalignedTable(["+---+", "| a |", "+---+---+"])).toBeNull();
+        expect(parseMisalignedTable(["+---+", "| a |", "+===+", "| b |", "+===+", "| c |", "+---+"])).toBeNull();
+        expect(parseMisalignedTable(["> +---+", "| a |", "> +---+"])).toBeNull();
+    })
+
+    test("Aligned tables are read as they are", () => {
+        const [table, isAligned] = parseTableSource(aligned) ?? [null, null];
+        expect(isAligned).toBe(true);
+        expect(table && tableContentToString(table)).toEqual(aligned.join("\n"));
+        expect(parseTableSource(["+---+", "| abc |", "+---+"])?.[1]).toBe(false);
+        expect(parseTableSource(["text"])).toBeNull();
+    })
+})
+
+describe("Framed lines", () => {
+    test("Finds the lines around the position", () => {
+        const doc = Text.of(["text", ...aligned, "", "> +---+", "> | a |", "> +---+", "after"]);
+        expect(findFramedLines(doc, doc.line(4).from + 2)).toEqual([2, 7]);
+        expect(findFramedLines(doc, doc.line(10).from)).toEqual([9, 11]);
+        expect(findFramedLines(doc, 0)).toBeNull();
+        expect(findFramedLines(doc, doc.line(8).from)).toBeNull();
+    })
+})
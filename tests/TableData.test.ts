@@ -0,0 +1,106 @@
+import { TableCell, TableContent, TableRow } from "../src/TableData";
+
+function table(...rows: TableCell[][]) {
+    return new TableContent(rows.map((cells) => new TableRow(cells)));
+}
+
+function cells(...contents: string[]) {
+    return contents.map((content) => new TableCell(content));
+}
+
+describe("Merging cells", () => {
+    test("Merge right", () => {
+        const merged = table(cells("a", "b"), cells("c", "d")).mergeRight(0, 0);
+        expect(merged.getCell(0, 0)).toEqual(new TableCell("a\nb", 1, 2));
+        expect(merged.getCell(0, 1).isCovered).toBe(true);
+        expect(merged.getCell(1, 1)).toEqual(new TableCell("d"));
+    })
+
+    test("Merge down skips empty content", () => {
+        const merged = table(cells("a", ""), cells("c", "d")).mergeDown(0, 1);
+        expect(merged.getCell(0, 1)).toEqual(new TableCell("d", 2, 1));
+        expect(merged.getCell(1, 1).isCovered).toBe(true);
+    })
+
+    test("Merging a merged cell", () => {
+        const merged = table(cells("a", "b", "c"), cells("d", "e", "f")).mergeDown(0, 0).mergeDown(0, 1).mergeRight(0, 0);
+        expect(merged.getCell(0, 0)).toEqual(new TableCell("a\nd\nb\ne", 2, 2));
+        expect(merged.getCell(1, 2)).toEqual(new TableCell("f"));
+    })
+
+    test("Only matching edges can be merged", () => {
+        const content = table(cells("a", "b"), cells("c", "d")).mergeDown(0, 0);
+        expect(() => content.mergeRight(0, 0)).toThrow();
+        expect(() => content.mergeRight(0, 1)).toThrow();
+        expect(() => content.mergeDown(1, 1)).toThrow();
+    })
+
+    test("Split", () => {
+        const split = table(cells("a", "b"), cells("c", "d")).mergeDown(0, 0).mergeDown(0, 1).mergeRight(0, 0).splitCell(1, 1);
+        expect(split).toEqual(table(cells("a\nc\nb\nd", ""), cells("", "")));
+    })
+})
+
+describe("TableContent.fillCells", () => {
+    test("Grows the table for values which don't fit", () => {
+        const content = new TableContent([new TableRow(cells("a", "b"))], { hasHeaderRow: true, columnAlignments: ["left", "right"] });
+        const filled = content.fillCells(0, 1, [["x", "y"], ["z"]]);
+        expect(filled.rows.map((row) => row.cells.map((cell) => cell.content))).toEqual([["a", "x", "y"], ["", "z", ""]]);
+        expect(filled.columnAlignments).toEqual(["left", "right", "default"]);
+        expect(filled.columnWidths).toEqual([null, null, null]);
+        expect(filled.hasHeaderRow).toBe(true);
+    })
+
+    test("Skips cells under merged cells", () => {
+        const filled = table(cells("a", "b"), cells("c", "d")).mergeRight(0, 0).fillCells(0, 0, [["x", "y"]]);
+        expect(filled.getCell(0, 0)).toEqual(new TableCell("x", 1, 2));
+        expect(filled.getCell(0, 1).isCovered).toBe(true);
+    })
+})
+
+describe("TableContent.deleteRows", () => {
+    test("Deleting the header row leaves no header", () => {
+        const content = new TableContent([new TableRow(cells("a", "b")), new TableRow(cells("c", "d")), new TableRow(cells("e", "f"))], { hasHeaderRow: true });
+        const deleted = content.deleteRows(0, 0);
+        expect(deleted.hasHeaderRow).toBe(false);
+        expect(deleted.rows.map((row) => row.cells.map((cell) => cell.content))).toEqual([["c", "d"], ["e", "f"]]);
+        expect(content.deleteRows(1, 2).hasHeaderRow).toBe(true);
+    })
+
+    test("Spans over the deleted rows shrink", () => {
+        const merged = table(cells("a", "b"), cells("c", "d"), cells("e", "f"), cells("g", "h")).mergeDown(0, 0).mergeDown(0, 0).mergeDown(1, 1);
+        const deleted = merged.deleteRows(1, 1);
+        expect(deleted.getCell(0, 0)).toEqual(new TableCell("a\nc\ne", 2, 1));
+        expect(deleted.getCell(1, 0).isCovered).toBe(true);
+        expect(deleted.getCell(1, 1)).toEqual(new TableCell("", 1, 1));
+        expect(deleted.getCell(2, 1)).toEqual(new TableCell("h"));
+    })
+})
+
+describe("TableContent.transpose", () => {
+    test("Swaps rows and columns", () => {
+        const content = new TableContent([new TableRow(cells("a", "b", "c")), new TableRow(cells("d", "e", "f"))], { hasHeaderRow: true, columnAlignments: ["left", "center", "right"] });
+        const transposed = content.transpose();
+        expect(transposed).toEqual(table(cells("a", "d"), cells("b", "e"), cells("c", "f")));
+        expect(transposed.transpose().rows).toEqual(content.rows);
+    })
+
+    test("Swaps the spans of merged cells", () => {
+        const transposed = table(cells("a", "b", "c"), cells("d", "e", "f")).mergeRight(0, 0).mergeRight(0, 0).transpose();
+        expect(transposed.getCell(0, 0)).toEqual(new TableCell("a\nb\nc", 3, 1));
+        expect(transposed.getCell(1, 0).isCovered).toBe(true);
+        expect(transposed.getCell(2, 1)).toEqual(new TableCell("f"));
+    })
+})
+
+describe("TableContent.normalizeSpans", () => {
+    test("Clips spans to the table", () => {
+        const normalized = table([new TableCell("a", 3, 3), TableCell.covered()], [TableCell.covered(), TableCell.covered()]).normalizeSpans();
+        expect(normalized.getCell(0, 0)).toEqual(new TableCell("a", 2, 2));
+    })
+
+    test("Uncovers orphaned cells", () => {
+        const normalized = table([new TableCell("a"), TableCell.covered()]).normalizeSpans();
+        expect(normalized).toEqual(table(cells("a", "")));
+    })
+})
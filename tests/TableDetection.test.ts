@@ -0,0 +1,182 @@
+import { ChangeSet, Text } from "@codemirror/state";
+import { DetectedTable, findTables, isSkippedNode, parseTableMarker, tableMarker, updateTables } from "../src/TableDetection";
+
+const table = [
+    "+-----+-----+",
+    "| a   | b   |",
+    "+-----+-----+",
+];
+
+function doc(lines: string[]) {
+    return Text.of(lines);
+}
+
+function ranges(tables: DetectedTable[]) {
+    return tables.map((t) => [t.from, t.to]);
+}
+
+function applyChange(text: Text, tables: DetectedTable[], change: { from: number, to?: number, insert?: string }) {
+    const changes = ChangeSet.of(change, text.length);
+    const newText = changes.apply(text);
+    return { text: newText, tables: updateTables(tables, changes, newText) };
+}
+
+describe("findTables", () => {
+    test("Finds tables between other lines", () => {
+        const text = doc(["intro", ...table, "", ...table, "outro"]);
+        const tables = findTables(text);
+        expect(tables.map((t) => t.source)).toEqual([table.join("\n"), table.join("\n")]);
+        expect(tables[0].content.rows[0].cells[0].content).toEqual("a");
+    })
+
+    test("Finds tables in blockquotes and list items", () => {
+        const quoted = table.map((l) => "> " + l);
+        const indented = table.map((l) => "  " + l);
+        const text = doc(["> [!note]", ...quoted, "", "- item", ...indented]);
+        const tables = findTables(text);
+        expect(tables.map((t) => t.source)).toEqual([quoted.join("\n"), indented.join("\n")]);
+        expect(tables.map((t) => t.content.linePrefix)).toEqual(["> ", "  "]);
+        expect(tables[0].from).toEqual(text.line(2).from);
+    })
+
+    test("Finds tables starting on the line of a list item", () => {
+        const item = ["- " + table[0], ...table.slice(1).map((l) => "  " + l)];
+        const tables = findTables(doc(["text", ...item]));
+        expect(tables.map((t) => t.source)).toEqual([item.join("\n")]);
+        expect(tables[0].content.linePrefix).toEqual("- ");
+    })
+
+    test("Ignores broken tables", () => {
+        expect(findTables(doc(["+---+", "| a |"]))).toEqual([]);
+    })
+})
+
+describe("Markers and skipped blocks", () => {
+    test("Markers", () => {
+        expect(parseTableMarker("<!-- grid-table: off -->")).toEqual("off");
+        expect(parseTableMarker("%% grid-table: on %%")).toEqual("on");
+        expect(parseTableMarker("> <!--grid-table:off-->")).toEqual("off");
+        expect(parseTableMarker("<!-- grid-table -->")).toBeNull();
+        expect(parseTableMarker("text")).toBeNull();
+    })
+
+    test("The marker is on the line before the table", () => {
+        const text = doc([...table, "<!-- grid-table: off -->", ...table]);
+        expect(findTables(text).map((t) => tableMarker(text, t))).toEqual([null, "off"]);
+    })
+
+    test("Skipped syntax nodes", () => {
+        expect(isSkippedNode("hmd-codeblock")).toBe(true);
+        expect(isSkippedNode("formatting_formatting-code-block_hmd-codeblock")).toBe(true);
+        expect(isSkippedNode("hmd-frontmatter")).toBe(true);
+        expect(isSkippedNode("math_math-block")).toBe(true);
+        expect(isSkippedNode("FencedCode")).toBe(true);
+        expect(isSkippedNode("Document")).toBe(false);
+        expect(isSkippedNode("hmd-table-sep")).toBe(false);
+        expect(isSkippedNode("mathematics")).toBe(false);
+    })
+})
+
+describe("updateTables", () => {
+    test("Unchanged tables are kept", () => {
+        const text = doc([...table, "", "text", "", ...table]);
+        const tables = findTables(text);
+        const textLine = text.line(5);
+
+        const updated = applyChange(text, tables, { from: textLine.from, insert: "more " });
+        expect(updated.tables[0]).toBe(tables[0]);
+        expect(updated.tables[1].content).toBe(tables[1].content);
+        expect(ranges(updated.tables)).toEqual(ranges(findTables(updated.text)));
+    })
+
+    test("Changed tables are parsed again", () => {
+        const text = doc([...table, "", ...table]);
+        const tables = findTables(text);
+        const cellPos = text.line(2).from + 2;
+
+        const updated = applyChange(text, tables, { from: cellPos, to: cellPos + 1, insert: "x" });
+        expect(updated.tables[0].content.rows[0].cells[0].content).toEqual("x");
+        expect(updated.tables[1]).toBe(tables[1]);
+    })
+
+    test("Breaking a table", () => {
+        const text = doc([...table, "", ...table]);
+        const tables = findTables(text);
+        const updated = applyChange(text, tables, { from: text.line(3).from, to: text.line(3).to, insert: "oops" });
+        expect(updated.tables).toHaveLength(1);
+        expect(ranges(updated.tables)).toEqual(ranges(findTables(updated.text)));
+    })
+
+    test("Fixing a table above the change", () => {
+        const text = doc(["+-----+-----+", "| a   | b   |", "+-----+----+"]);
+        const tables = findTables(text);
+        expect(tables).toHaveLength(0);
+
+        const updated = applyChange(text, tables, { from: text.line(3).to - 1, insert: "-" });
+        expect(updated.tables).toHaveLength(1);
+    })
+
+    test("Extending a table", () => {
+        const text = doc([...table, "text"]);
+        const tables = findTables(text);
+        const updated = applyChange(text, tables, { from: text.line(4).from, to: text.line(4).to, insert: "| c   | d   |\n+-----+-----+" });
+        expect(updated.tables).toHaveLength(1);
+        expect(updated.tables[0].content.rowCount).toEqual(2);
+    })
+
+    test("Joining two tables", () => {
+        const text = doc([...table, "", ...table]);
+        const tables = findTables(text);
+        const updated = applyChange(text, tables, { from: text.line(4).from, to: text.line(5).to });
+        expect(updated.tables).toHaveLength(1);
+        expect(ranges(updated.tables)).toEqual(ranges(findTables(updated.text)));
+    })
+})
+
+describe("Large documents", () => {
+    // A meeting notes file: 100 tables with prose around them, 5000 lines in total.
+    const lines: string[] = [];
+    while (lines.length < 5000) {
+        lines.push("## Meeting", "Some notes about the meeting.", "");
+        lines.push("+----------+----------+----------+");
+        for (let row = 0; row < 10; row++) {
+            lines.push(`| item ${row}   | owner    | status   |`);
+            lines.push("|          |          |          |");
+            lines.push("+----------+----------+----------+");
+        }
+        lines.push("", ...Array.from({ length: 15 }, (_, i) => `Discussion point ${i}.`), "");
+    }
+
+    test("Typing in a cell only parses that table again", () => {
+        let text = doc(lines);
+        let tables = findTables(text);
+
+        for (let i = 0; i < 50; i++) {
+            // Overwrites a space on the second line of content in one of the first ten tables,
+            // so that the table stays valid.
+            const cellPos = text.line(6 + 51 * (i % 10)).from + 2 + Math.floor(i / 10);
+            const changes = ChangeSet.of({ from: cellPos, to: cellPos + 1, insert: "x" }, text.length);
+            text = changes.apply(text);
+            const updated = updateTables(tables, changes, text);
+
+            const edited = tables.findIndex((t) => t.from <= cellPos && cellPos <= t.to);
+            expect(edited).toBeGreaterThanOrEqual(0);
+            expect(updated).toHaveLength(tables.length);
+            for (const [index, table] of updated.entries()) {
+                if (index == edited) {
+                    expect(table.content).not.toBe(tables[index].content);
+                } else {
+                    expect(table.content).toBe(tables[index].content);
+                }
+            }
+            // Tables before the change don't move, so they're kept as they are.
+            expect(updated.slice(0, edited)).toEqual(tables.slice(0, edited));
+            updated.slice(0, edited).forEach((table, index) => expect(table).toBe(tables[index]));
+            tables = updated;
+        }
+
+        const full = findTables(text);
+        expect(ranges(tables)).toEqual(ranges(full));
+        expect(tables.map((t) => t.source)).toEqual(full.map((t) => t.source));
+    })
+})
@@ -0,0 +1,127 @@
+import { Text } from "@codemirror/state";
+import { diagnoseTable, findBrokenTableAt, findBrokenTables, repairTable } from "../src/TableDiagnostics";
+import { tableContentToString } from "../src/TableSerde";
+
+const valid = [
+    "+-----+-----+",
+    "| a   | b   |",
+    "+=====+=====+",
+    "| c   | d   |",
+    "+-----+-----+",
+];
+
+function problems(lines: string[]): [number, string][] {
+    return diagnoseTable(lines).map((d) => [d.line, lines[d.line].slice(d.from, d.to)]);
+}
+
+describe("Diagnostics", () => {
+    test("Valid tables have none", () => {
+        expect(diagnoseTable(valid)).toEqual([]);
+    })
+
+    test("Borders out of line", () => {
+        const lines = [...valid];
+        lines[1] = "| a  | b   |";
+        lines[3] = "| c    | d  |";
+        lines[4] = "+------+-----+";
+        expect(problems(lines)).toEqual([[1, "|"], [3, "|"], [4, "+"]]);
+        expect(diagnoseTable(lines)[2].reason).toContain("14 characters wide");
+    })
+
+    test("Moved borders and corners", () => {
+        const lines = [...valid];
+        lines[1] = "| a    |b   |";
+        lines[2] = "+======+====+";
+        const diagnostics = diagnoseTable(lines);
+        expect(problems(lines)).toEqual([[1, "|"], [2, "+"]]);
+        expect(diagnostics[0].from).toEqual(7);
+        expect(diagnostics[0].reason).toContain("line up with the column");
+        expect(diagnostics[1].reason).toContain("corner");
+    })
+
+    test("Missing borders and empty rows", () => {
+        expect(problems(valid.slice(0, 4))).toEqual([[3, "| c   | d   |"]]);
+        expect(diagnoseTable([valid[0], valid[0], ...valid.slice(1)])[0].reason).toContain("line of content");
+    })
+
+    test("Header separators", () => {
+        const lines = [valid[0], valid[1], valid[0], valid[3], valid[2], valid[3], valid[4]];
+        expect(diagnoseTable(lines).map((d) => d.line)).toEqual([4]);
+        expect(diagnoseTable(lines)[0].reason).toContain("right after the first row");
+        expect(diagnoseTable([...valid.slice(0, 4), valid[2], valid[3], valid[4]])[0].reason).toContain("Only one");
+    })
+
+    test("Positions include the line prefix", () => {
+        const lines = valid.map((line) => "> " + line);
+        lines[1] = "> | a    |b   |";
+        expect(diagnoseTable(lines)[0].from).toEqual(9);
+    })
+})
+
+describe("Finding broken tables", () => {
+    test("Only tables which don't parse", () => {
+        const broken = [...valid];
+        broken[3] = "| c   | d  |";
+        const doc = Text.of(["text", ...valid, "", ...broken, "", "| just | pipes |", "", ...valid, ...broken]);
+        const tables = findBrokenTables(doc);
+        expect(tables.map((t) => [t.firstLine, t.lastLine])).toEqual([[8, 12], [21, 25]]);
+        expect(tables[0].diagnostics.map((d) => d.line)).toEqual([3]);
+    })
+
+    test("The broken table at a line", () => {
+        const broken = [...valid];
+        broken[3] = "| c   | d  |";
+        const doc = Text.of(["text", ...broken, "", ...valid]);
+        expect(findBrokenTableAt(doc, 3)).toMatchObject({ firstLine: 2, lastLine: 6 });
+        expect(findBrokenTableAt(doc, 1)).toBeNull();
+        expect(findBrokenTableAt(doc, 9)).toBeNull();
+    })
+})
+
+describe("Repairing tables", () => {
+    test("Lines up borders with most of the table", () => {
+        const table = repairTable([
+            "+-----+-----+",
+            "| a  | b   |",
+            "+======+====+",
+            "| c   | d    |",
+            "+-----+-----+",
+        ]);
+        expect(table && tableContentToString(table)).toEqual(valid.join("\n"));
+    })
+
+    test("Adds missing borders", () => {
+        const table = repairTable(["> +---+---+", "> | a   b |", "> | c | d |"]);
+        expect(table && tableContentToString(table)).toEqual("> +---+---+\n> | a | b |\n> | c | d |\n> +---+---+");
+    })
+
+    test("Valid tables stay as they are", () => {
+        const table = repairTable(valid);
+        expect(table && tableContentToString(table)).toEqual(valid.join("\n"));
+    })
+
+    test("Keeps pipes in the text of cells", () => {
+        const table = repairTable([
+            "+---------+---+",
+            "| [[x|y]] | e |",
+            "| a      | b |",
+            "+---------+---+",
+        ]);
+        expect(table && tableContentToString(table)).toEqual([
+            "+---------+---+",
+            "| [[x|y]] | e |",
+            "| a       | b |",
+            "+---------+---+",
+        ].join("\n"));
+        expect(table?.rows[0].cells[0].content).toEqual("[[x|y]]\na");
+    })
+
+    test("Gives up on lines which can't be cut into the columns", () => {
+        expect(repairTable(["+---------+---+", "| [[x|y]] | e | f |", "+---------+---+"])).toBeNull();
+        expect(repairTable(["+-----+-----+", "| a b c d ef |", "+-----+-----+"])).toBeNull();
+    })
+
+    test("Gives up without border lines", () => {
+        expect(repairTable(["| a |", "| b |"])).toBeNull();
+    })
+})
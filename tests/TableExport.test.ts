@@ -0,0 +1,92 @@
+import { TableCell, TableContent, TableRow } from "../src/TableData";
+import { exportTable, htmlDocument } from "../src/TableExport";
+
+const table = new TableContent([
+    new TableRow([new TableCell("Name"), new TableCell("Notes")]),
+    new TableRow([new TableCell("a, b"), new TableCell("two\nlines")]),
+    new TableRow([new TableCell('say "hi"'), new TableCell("<b>x</b>")]),
+], { hasHeaderRow: true, columnAlignments: ["default", "right"] });
+
+describe("exportTable", () => {
+    test("CSV", async () => {
+        expect(await exportTable(table, "csv")).toEqual(
+            'Name,Notes\r\n' +
+            '"a, b","two\nlines"\r\n' +
+            '"say ""hi""",<b>x</b>'
+        );
+    })
+
+    test("TSV", async () => {
+        expect(await exportTable(table, "tsv")).toEqual(
+            'Name\tNotes\n' +
+            'a, b\t"two\nlines"\n' +
+            '"say ""hi"""\t<b>x</b>'
+        );
+    })
+
+    test("Markdown", async () => {
+        expect(await exportTable(table, "markdown")).toEqual(
+            "| Name     | Notes        |\n" +
+            "| -------- | -----------: |\n" +
+            "| a, b     | two<br>lines |\n" +
+            '| say "hi" | <b>x</b>     |'
+        );
+    })
+
+    test("Markdown without the line prefix", async () => {
+        const rows = [new TableRow([new TableCell("a")]), new TableRow([new TableCell("b")])];
+        const expected = "| a   |\n| --- |\n| b   |";
+        expect(await exportTable(new TableContent(rows, { hasHeaderRow: true, linePrefix: "> " }), "markdown")).toEqual(expected);
+        expect(await exportTable(new TableContent(rows, { hasHeaderRow: true, linePrefix: "- " }), "markdown")).toEqual(expected);
+    })
+
+    test("HTML", async () => {
+        expect(await exportTable(table, "html")).toEqual([
+            "<table>",
+            "<thead>",
+            "<tr>",
+            "<th>Name</th>",
+            '<th style="text-align: right">Notes</th>',
+            "</tr>",
+            "</thead>",
+            "<tbody>",
+            "<tr>",
+            "<td>a, b</td>",
+            '<td style="text-align: right">two\nlines</td>',
+            "</tr>",
+            "<tr>",
+            "<td>say &quot;hi&quot;</td>",
+            '<td style="text-align: right">&lt;b&gt;x&lt;/b&gt;</td>',
+            "</tr>",
+            "</tbody>",
+            "</table>",
+        ].join("\n"));
+    })
+
+    test("HTML with spans and rendered cells", async () => {
+        const spanned = new TableContent([
+            new TableRow([new TableCell("**a**", 1, 2), TableCell.covered()]),
+            new TableRow([new TableCell("b"), new TableCell("c")]),
+        ]);
+        const html = await exportTable(spanned, "html", async (content) => `<p>${content}</p>`);
+        expect(html).toEqual([
+            "<table>",
+            "<tbody>",
+            "<tr>",
+            '<td colspan="2"><p>**a**</p></td>',
+            "</tr>",
+            "<tr>",
+            "<td><p>b</p></td>",
+            "<td><p>c</p></td>",
+            "</tr>",
+            "</tbody>",
+            "</table>",
+        ].join("\n"));
+    })
+})
+
+test("htmlDocument", () => {
+    const document = htmlDocument("A & B", "<table></table>");
+    expect(document).toContain("<title>A &amp; B</title>");
+    expect(document).toContain("<body>\n<table></table>\n</body>");
+})
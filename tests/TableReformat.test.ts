@@ -0,0 +1,87 @@
+import { reformatTables } from "../src/TableReformat";
+
+const document = [
+    "# Notes",
+    "",
+    "+-------+---+",
+    "| wide  | b |",
+    "+-------+---+",
+    "",
+    "| a | b |",
+    "|---|--:|",
+    "| c | d |",
+    "",
+    "```",
+    "| in | code |",
+    "|----|------|",
+    "```",
+].join("\n");
+
+describe("reformatTables", () => {
+    test("Counting only", () => {
+        const result = reformatTables(document, { convertPipeTables: false, normalizeGridTables: false });
+        expect(result).toEqual({ text: document, gridTables: 1, pipeTables: 1, changedTables: 0 });
+    })
+
+    test("Converting pipe tables", () => {
+        const result = reformatTables(document, { convertPipeTables: true, normalizeGridTables: false });
+        expect(result.changedTables).toEqual(1);
+        expect(result.text.split("\n").slice(6, 11)).toEqual([
+            "+---+---+",
+            "| a | b |",
+            "+===+==:+",
+            "| c | d |",
+            "+---+---+",
+        ]);
+        expect(result.text.split("\n").slice(12)).toEqual(document.split("\n").slice(10));
+    })
+
+    test("Normalizing grid tables", () => {
+        const result = reformatTables(document, { convertPipeTables: false, normalizeGridTables: true });
+        expect(result.changedTables).toEqual(1);
+        expect(result.text.split("\n").slice(2, 5)).toEqual([
+            "+------+---+",
+            "| wide | b |",
+            "+------+---+",
+        ]);
+    })
+
+    test("Grid tables in blockquotes stay in them", () => {
+        const text = "> +-------+\n> | quote |\n> +-------+";
+        const result = reformatTables(text, { convertPipeTables: false, normalizeGridTables: true });
+        expect(result.gridTables).toEqual(1);
+        expect(result.text).toEqual(text);
+    })
+
+    test("Front matter and tables after an 'off' marker are left alone", () => {
+        const table = "+-------+\n| wide  |\n+-------+";
+        const text = `---\n${table}\n---\n<!-- grid-table: off -->\n${table}\n\n${table}`;
+        const result = reformatTables(text, { convertPipeTables: false, normalizeGridTables: true });
+        expect(result.gridTables).toEqual(1);
+        expect(result.text).toEqual(`---\n${table}\n---\n<!-- grid-table: off -->\n${table}\n\n+------+\n| wide |\n+------+`);
+    })
+
+    test("Tables in indented code are left alone", () => {
+        const table = "+-------+\n| wide  |\n+-------+";
+        const code = ["text", "", ...`${table}\n| more  |\n+-------+`.split("\n").map((l) => "    " + l)].join("\n");
+        expect(reformatTables(code, { convertPipeTables: false, normalizeGridTables: true })).toMatchObject({ text: code, gridTables: 0 });
+
+        const item = ["- item", "", ...table.split("\n").map((l) => "    " + l)].join("\n");
+        expect(reformatTables(item, { convertPipeTables: false, normalizeGridTables: true }).gridTables).toEqual(1);
+    })
+
+    test("Windows line endings", () => {
+        const text = document.split("\n").join("\r\n");
+        const counted = reformatTables(text, { convertPipeTables: false, normalizeGridTables: false });
+        expect(counted).toEqual({ text, gridTables: 1, pipeTables: 1, changedTables: 0 });
+
+        const result = reformatTables(text, { convertPipeTables: true, normalizeGridTables: true });
+        expect(result.changedTables).toEqual(2);
+        expect(result.text).toEqual(reformatTables(document, { convertPipeTables: true, normalizeGridTables: true }).text.split("\n").join("\r\n"));
+    })
+
+    test("Already normalized", () => {
+        const text = "+---+\n| a |\n+---+";
+        expect(reformatTables(text, { convertPipeTables: true, normalizeGridTables: true }).changedTables).toEqual(0);
+    })
+})
@@ -1,5 +1,5 @@
 import { TableCell, TableContent, TableRow } from "../src/TableData";
-import { ContentLine, isValidTableSpec, lookAheadForTableParts, SeparatorLine, tableContentToString, tryParseTableFromParsedParts } from "../src/TableSerde"
+import { ContentLine, continuationPrefix, isValidTableSpec, lookAheadForTableParts, SeparatorLine, SerializeOptions, SpannedSeparatorLine, tableContentToString, tableLinePrefix, tryParseTableFromParsedParts } from "../src/TableSerde"
 
 describe("SeparatorLine.toStringRepr", () => {
     it.each([
@@ -9,6 +9,19 @@ describe("SeparatorLine.toStringRepr", () => {
     ])("%s", (columnLengths, expectedRepr) => {
         expect(new SeparatorLine(columnLengths).toStringRepr()).toEqual(expectedRepr);
     })
+
+    test("Header", () => {
+        expect(new SeparatorLine([1, 2], true).toStringRepr()).toEqual("+=+==+");
+    })
+
+    test("Alignments", () => {
+        expect(new SeparatorLine([3, 3, 3, 3], false, ["default", "left", "center", "right"]).toStringRepr()).toEqual("+---+:--+:-:+--:+");
+        expect(new SeparatorLine([4, 4], true, ["center", "right"]).toStringRepr()).toEqual("+:==:+===:+");
+    })
+
+    test("Column too short for alignment", () => {
+        expect(() => new SeparatorLine([2], false, ["center"]).toStringRepr()).toThrow();
+    })
 });
 
 describe("SeparatorLine constructor", () => {
@@ -25,12 +38,33 @@ describe("SeparatorLine parsing", () => {
         expect(SeparatorLine.tryParse(toParse).columnLengths).toEqual(expectedColumns);
     });
 
+    it.each([
+        ["+-+", false],
+        ["+=+", true],
+        ["+==+====+", true],
+    ])("Header '%s'", (toParse, isHeader) => {
+        expect(SeparatorLine.tryParse(toParse).isHeader).toBe(isHeader);
+    });
+
+    it.each([
+        ["+---+", ["default"]],
+        ["+:--+--:+:-:+", ["left", "right", "center"]],
+        ["+:==+==:+", ["left", "right"]],
+    ])("Alignments '%s'", (toParse, expectedAlignments) => {
+        const sepLine = SeparatorLine.tryParse(toParse);
+        expect(sepLine.alignments).toEqual(expectedAlignments);
+        expect(sepLine.toStringRepr()).toEqual(toParse);
+    });
+
     it.each([
         [""],
         ["+-"],
         ["-+"],
         ["+-+-"],
         ["+-hi-+"],
+        ["+-+==+"],
+        ["+:+"],
+        ["+-:-+"],
     ])("Bad format '%s'", (s) => {
         expect(() => SeparatorLine.tryParse(s)).toThrow(new Error("Line doesn't match format! Should look like this: '+--+---+-+'!"))
     })
@@ -190,6 +224,33 @@ describe("isValidTableSpec", () => {
             new SeparatorLine([2, 1]),
         ])).toBe(false);
     });
+    test("Header after first row", () => {
+        expect(isValidTableSpec([
+            new SeparatorLine([3, 3]),
+            new ContentLine(["a", "b"]),
+            new SeparatorLine([3, 3], true),
+            new ContentLine(["c", "d"]),
+            new SeparatorLine([3, 3]),
+        ])).toBe(true);
+    });
+    test("Header as first line", () => {
+        expect(isValidTableSpec([
+            new SeparatorLine([3, 3], true),
+            new ContentLine(["a", "b"]),
+            new SeparatorLine([3, 3]),
+        ])).toBe(false);
+    });
+    test("Header after second row", () => {
+        expect(isValidTableSpec([
+            new SeparatorLine([3, 3]),
+            new ContentLine(["a", "b"]),
+            new SeparatorLine([3, 3]),
+            new ContentLine(["c", "d"]),
+            new SeparatorLine([3, 3], true),
+            new ContentLine(["e", "f"]),
+            new SeparatorLine([3, 3]),
+        ])).toBe(false);
+    });
 })
 
 
@@ -205,7 +266,7 @@ describe("tryParseTableFromParsedParts", () => {
         ])).toStrictEqual(new TableContent([
             new TableRow([new TableCell("hi\nyo"), new TableCell("ther\neyou")]),
             new TableRow([new TableCell("wo"), new TableCell("ohoo")]),
-        ]))
+        ], { columnWidths: [4, 6] }))
     });
     test("Trimming", () => {
         expect(tryParseTableFromParsedParts([
@@ -218,11 +279,28 @@ describe("tryParseTableFromParsedParts", () => {
         ])).toStrictEqual(new TableContent([
             new TableRow([new TableCell("hi\nyo"), new TableCell("th\neyou")]),
             new TableRow([new TableCell("wo"), new TableCell("ohoo")]),
-        ]))
+        ], { columnWidths: [4, 6] }))
+    })
+    test("Header", () => {
+        expect(tryParseTableFromParsedParts([
+            new SeparatorLine([4, 6]),
+            new ContentLine(["hi", "ther"]),
+            new SeparatorLine([4, 6], true),
+            new ContentLine(["wo", "ohoo"]),
+            new SeparatorLine([4, 6]),
+        ])).toStrictEqual(new TableContent([
+            new TableRow([new TableCell("hi"), new TableCell("ther")]),
+            new TableRow([new TableCell("wo"), new TableCell("ohoo")]),
+        ], { hasHeaderRow: true, columnWidths: [4, 6] }))
     })
 })
 
 describe("tableContentToString", () => {
+    test("Tables without rows", () => {
+        expect(tableContentToString(new TableContent([]))).toEqual("");
+        expect(tableContentToString(new TableContent([], { linePrefix: "> " }))).toEqual("");
+    })
+
     test("Sanity", () => {
         expect(tableContentToString(new TableContent([
             new TableRow([
@@ -275,4 +353,387 @@ describe("tableContentToString", () => {
             "+-+---+"
         );
     })
+    test("Header", () => {
+        expect(tableContentToString(new TableContent([
+            new TableRow([
+                new TableCell("a"),
+                new TableCell("b")
+            ]),
+            new TableRow([
+                new TableCell("c"),
+                new TableCell("d")
+            ]),
+        ], { hasHeaderRow: true }))).toEqual(
+            "+---+---+\n" +
+            "| a | b |\n" +
+            "+===+===+\n" +
+            "| c | d |\n" +
+            "+---+---+"
+        );
+    })
+    test("Alignments", () => {
+        expect(tableContentToString(new TableContent([
+            new TableRow([
+                new TableCell("a"),
+                new TableCell(""),
+                new TableCell("c")
+            ]),
+        ], { columnAlignments: ["left", "center", "right"] }))).toEqual(
+            "+:--+:-:+--:+\n" +
+            "| a |   | c |\n" +
+            "+---+---+---+"
+        );
+    })
+    test("Alignments round trip", () => {
+        const source = [
+            "+------+--------+",
+            "| h1   | h2     |",
+            "+:=====+=======:+",
+            "| a    | b      |",
+            "+------+--------+",
+        ];
+        const table = tryParseTableFromParsedParts(lookAheadForTableParts(source));
+        expect(table.columnAlignments).toEqual(["left", "right"]);
+        expect(tableContentToString(table)).toEqual(source.join("\n"));
+        expect(tableContentToString(table.normalizeWidths())).toEqual(
+            "+----+----+\n" +
+            "| h1 | h2 |\n" +
+            "+:===+===:+\n" +
+            "| a  | b  |\n" +
+            "+----+----+"
+        );
+    })
+    test("Header round trip", () => {
+        const source = [
+            "+-----+-----+",
+            "| h1  | h2  |",
+            "+=====+=====+",
+            "| a   | b   |",
+            "+-----+-----+",
+        ];
+        const table = tryParseTableFromParsedParts(lookAheadForTableParts(source));
+        expect(table.hasHeaderRow).toBe(true);
+        expect(tableContentToString(table)).toEqual(source.join("\n"));
+        expect(tableContentToString(table.normalizeWidths())).toEqual(
+            "+----+----+\n" +
+            "| h1 | h2 |\n" +
+            "+====+====+\n" +
+            "| a  | b  |\n" +
+            "+----+----+"
+        );
+    })
+    test("Spans round trip", () => {
+        const source = [
+            "+------+-----+-----+",
+            "| wide cell  | c   |",
+            "+------+-----+     |",
+            "| a    | b   |     |",
+            "+------+-----+-----+",
+        ];
+        const table = tryParseTableFromParsedParts(lookAheadForTableParts(source));
+        expect(table.hasSpans).toBe(true);
+        expect(table.getCell(0, 0)).toEqual(new TableCell("wide cell", 1, 2));
+        expect(table.getCell(0, 1).isCovered).toBe(true);
+        expect(table.getCell(0, 2)).toEqual(new TableCell("c", 2, 1));
+        expect(table.getCell(1, 2).isCovered).toBe(true);
+        expect(tableContentToString(table)).toEqual(["+------------+-----+", ...source.slice(1)].join("\n"));
+        expect(tableContentToString(table.normalizeWidths())).toEqual(
+            "+-----------+---+\n" +
+            "| wide cell | c |\n" +
+            "+---+-------+   |\n" +
+            "| a | b     |   |\n" +
+            "+---+-------+---+"
+        );
+    })
+})
+
+describe("Spanned tables", () => {
+    test("ContentLine spanning columns", () => {
+        const sepLine = SeparatorLine.tryParse("+---+---+---+");
+        const line = ContentLine.tryParseAccordingToSepLine("| wide  | c |", sepLine);
+        expect(line?.dataChunks).toEqual(["wide ", "c"]);
+        expect(line?.columnSpans).toEqual([2, 1]);
+    })
+
+    test("SpannedSeparatorLine", () => {
+        expect(SpannedSeparatorLine.tryParse("+---+---+   |", 13).boundaries).toEqual([0, 4, 8, 12]);
+        expect(() => SpannedSeparatorLine.tryParse("+---+---+   |", 12)).toThrow();
+        expect(() => SpannedSeparatorLine.tryParse("+---+---+---+", 13)).toThrow();
+        expect(() => SpannedSeparatorLine.tryParse("| a | b | c |", 13)).toThrow();
+    })
+
+    test("Pandoc example", () => {
+        const source = [
+            "+---------------------+----------+",
+            "| Property            | Earth    |",
+            "+=============+=======+==========+",
+            "|             | min   | -89.2 °C |",
+            "| Temperature +-------+----------+",
+            "| 1961-1990   | mean  | 14 °C    |",
+            "|             +-------+----------+",
+            "|             | max   | 56.7 °C  |",
+            "+-------------+-------+----------+",
+        ];
+        const parts = lookAheadForTableParts(source);
+        expect(parts).toHaveLength(source.length);
+        expect(isValidTableSpec(parts)).toBe(true);
+
+        const table = tryParseTableFromParsedParts(parts);
+        expect(table.hasHeaderRow).toBe(true);
+        expect(table.rowCount).toEqual(4);
+        expect(table.columnCount).toEqual(3);
+        expect(table.getCell(0, 0)).toEqual(new TableCell("Property", 1, 2));
+        expect(table.getCell(1, 0)).toEqual(new TableCell("\nTemperature\n1961-1990", 3, 1));
+        expect(table.getCell(3, 2)).toEqual(new TableCell("56.7 °C"));
+
+        expect(tryParseTableFromParsedParts(lookAheadForTableParts(tableContentToString(table).split("\n")))).toEqual(table);
+    })
+
+    test("Cells must tile the table", () => {
+        const parts = lookAheadForTableParts([
+            "+---+---+",
+            "| a | b |",
+            "+---+   |",
+            "| c     |",
+            "+---+---+",
+        ]);
+        expect(isValidTableSpec(parts)).toBe(false);
+    })
+})
+
+describe("Mixed scripts", () => {
+    const rendered = [
+        "+----------+-------------+",
+        "| English  | 日本語      |",
+        "+==========+=============+",
+        "| cafe\u0301     | 한국어 text |",
+        "| 🙂 emoji |             |",
+        "+----------+-------------+",
+    ];
+
+    test("Serializing pads by display width", () => {
+        const table = new TableContent([
+            new TableRow([new TableCell("English"), new TableCell("日本語")]),
+            new TableRow([new TableCell("cafe\u0301\n🙂 emoji"), new TableCell("한국어 text")]),
+        ], { hasHeaderRow: true });
+        expect(tableContentToString(table)).toEqual(rendered.join("\n"));
+    })
+
+    test("Parsing measures by display width", () => {
+        const parts = lookAheadForTableParts(rendered);
+        expect(parts).toHaveLength(rendered.length);
+        expect(isValidTableSpec(parts)).toBe(true);
+
+        const table = tryParseTableFromParsedParts(parts);
+        expect(table.rows[0].cells.map((c) => c.content)).toEqual(["English", "日本語"]);
+        expect(table.rows[1].cells.map((c) => c.content)).toEqual(["cafe\u0301\n🙂 emoji", "한국어 text\n"]);
+        expect(tableContentToString(table)).toEqual(rendered.join("\n"));
+    })
+
+    test("Misaligned by character count", () => {
+        const parts = lookAheadForTableParts([
+            "+--------+",
+            "| 日本語    |",
+            "+--------+",
+        ]);
+        expect(isValidTableSpec(parts)).toBe(false);
+    })
+
+    test("Wide characters in spanning cells", () => {
+        const table = new TableContent([
+            new TableRow([new TableCell("見出し", 1, 2), TableCell.covered()]),
+            new TableRow([new TableCell("a"), new TableCell("b")]),
+        ]);
+        const text = tableContentToString(table);
+        expect(text).toEqual(
+            "+--------+\n" +
+            "| 見出し |\n" +
+            "+---+----+\n" +
+            "| a | b  |\n" +
+            "+---+----+"
+        );
+        expect(tryParseTableFromParsedParts(lookAheadForTableParts(text.split("\n"))).normalizeWidths()).toEqual(table);
+    })
+})
+
+describe("Column widths", () => {
+    const source = [
+        "+----------+---+",
+        "| padded   | b |",
+        "+----------+---+",
+    ];
+
+    test("Parsing keeps the column widths", () => {
+        const table = tryParseTableFromParsedParts(lookAheadForTableParts(source));
+        expect(table.columnWidths).toEqual([10, 3]);
+    })
+
+    test("Widths are kept when content shrinks", () => {
+        const table = tryParseTableFromParsedParts(lookAheadForTableParts(source));
+        const edited = new TableContent([new TableRow([new TableCell("p"), new TableCell("b")])], { columnWidths: table.columnWidths.slice() });
+        expect(tableContentToString(edited)).toEqual(
+            "+----------+---+\n" +
+            "| p        | b |\n" +
+            "+----------+---+"
+        );
+    })
+
+    test("Columns grow past their width", () => {
+        const table = new TableContent([new TableRow([new TableCell("longer than before"), new TableCell("b")])], { columnWidths: [10, 3] });
+        expect(tableContentToString(table)).toEqual(
+            "+--------------------+---+\n" +
+            "| longer than before | b |\n" +
+            "+--------------------+---+"
+        );
+    })
+
+    test("Columns without a width fit their content", () => {
+        const table = new TableContent([new TableRow([new TableCell("a"), new TableCell("b")])], { columnWidths: [null, 5] });
+        expect(tableContentToString(table)).toEqual(
+            "+---+-----+\n" +
+            "| a | b   |\n" +
+            "+---+-----+"
+        );
+    })
+
+    test("Normalizing widths", () => {
+        const table = tryParseTableFromParsedParts(lookAheadForTableParts(source)).normalizeWidths();
+        expect(table.columnWidths).toEqual([null, null]);
+        expect(tableContentToString(table)).toEqual(
+            "+--------+---+\n" +
+            "| padded | b |\n" +
+            "+--------+---+"
+        );
+    })
+})
+
+describe("Line prefixes", () => {
+    const callout = [
+        "> +---+-----+",
+        "> | a | b   |",
+        "> +---+-----+",
+    ];
+
+    test("Prefixes of blockquotes and indentation", () => {
+        expect(tableLinePrefix("> +---+")).toEqual("> ");
+        expect(tableLinePrefix(" > >+---+")).toEqual(" > >");
+        expect(tableLinePrefix("    | a |")).toEqual("    ");
+        expect(tableLinePrefix("+---+")).toEqual("");
+    })
+
+    test("Prefixes of list items", () => {
+        expect(tableLinePrefix("- +---+")).toEqual("- ");
+        expect(tableLinePrefix("> 1. [ ] +---+")).toEqual("> 1. [ ] ");
+        expect(tableLinePrefix("+---+---+")).toEqual("");
+        expect(continuationPrefix("> 1. [ ] ")).toEqual("> " + " ".repeat(7));
+        expect(continuationPrefix("> ")).toEqual("> ");
+    })
+
+    test("Tables starting on the line of a list item", () => {
+        const item = ["- +---+", "  | a |", "  +---+"];
+        const parts = lookAheadForTableParts([...item, "- +---+"]);
+        expect(parts.length).toEqual(3);
+
+        const table = tryParseTableFromParsedParts(parts, tableLinePrefix(item[0]));
+        expect(table.rows[0].cells[0].content).toEqual("a");
+        expect(tableContentToString(table)).toEqual(item.join("\n"));
+    })
+
+    test("Tables keep the prefix of their lines", () => {
+        const parts = lookAheadForTableParts([...callout, "> more text"]);
+        expect(parts.length).toEqual(3);
+
+        const table = tryParseTableFromParsedParts(parts, tableLinePrefix(callout[0]));
+        expect(table.rows[0].cells[1].content).toEqual("b");
+        expect(table.linePrefix).toEqual("> ");
+        expect(tableContentToString(table)).toEqual(callout.join("\n"));
+    })
+
+    test("Tables end where the prefix changes", () => {
+        const indented = ["  +---+", "  | a |", "  +---+"];
+        expect(lookAheadForTableParts([...indented.slice(0, 2), "+---+"]).length).toEqual(2);
+        expect(lookAheadForTableParts([...indented.slice(0, 2), "    +---+"]).length).toEqual(2);
+        expect(lookAheadForTableParts(indented).length).toEqual(3);
+    })
+
+    test("Edited tables keep their prefix", () => {
+        const table = tryParseTableFromParsedParts(lookAheadForTableParts(callout), "> ");
+        expect(tableContentToString(table.mergeRight(0, 0))).toEqual(
+            "> +---------+\n" +
+            "> | a       |\n" +
+            "> | b       |\n" +
+            "> +---------+"
+        );
+    })
+})
+
+describe("Wrapping", () => {
+    const paragraph = "a long paragraph which doesn't fit";
+
+    test("Long lines are wrapped at spaces", () => {
+        const table = new TableContent([
+            new TableRow([new TableCell(paragraph), new TableCell("b")]),
+        ]);
+        expect(tableContentToString(table, { maxColumnWidth: 12 })).toEqual(
+            "+--------------+---+\n" +
+            "| a long       | b |\n" +
+            "|  paragraph   |   |\n" +
+            "|  which       |   |\n" +
+            "|  doesn't fit |   |\n" +
+            "+--------------+---+"
+        );
+    })
+
+    test("Wrapped lines are joined back", () => {
+        const table = new TableContent([
+            new TableRow([new TableCell(`${paragraph}\nsecond line`), new TableCell("b")]),
+        ]);
+        const text = tableContentToString(table, { maxColumnWidth: 12 });
+        const parsed = tryParseTableFromParsedParts(lookAheadForTableParts(text.split("\n")), "", { maxColumnWidth: 12 });
+        expect(parsed.rows[0].cells[0].content).toEqual(`${paragraph}\nsecond line`);
+        expect(tableContentToString(parsed, { maxColumnWidth: 12 })).toEqual(text);
+    })
+
+    test("Lines starting with a space of their own aren't joined", () => {
+        const table = new TableContent([new TableRow([new TableCell("a\n b"), new TableCell("a long line\n c")])]);
+        const roundTrip = (options: SerializeOptions) => {
+            const text = tableContentToString(table, options);
+            return tryParseTableFromParsedParts(lookAheadForTableParts(text.split("\n")), "", options).rows[0].cells.map((cell) => cell.content);
+        };
+        expect(roundTrip({})).toEqual(["a\n b", "a long line\n c"]);
+        expect(roundTrip({ maxColumnWidth: 20 })).toEqual(["a\n b", "a long line\n c"]);
+    })
+
+    test("Short lines and no limit", () => {
+        const table = new TableContent([new TableRow([new TableCell(paragraph)])]);
+        expect(tableContentToString(table, { maxColumnWidth: 100 })).toEqual(tableContentToString(table));
+        expect(tableContentToString(table, { maxColumnWidth: null })).toEqual(tableContentToString(table));
+    })
+
+    test("Words longer than the limit aren't broken", () => {
+        const table = new TableContent([new TableRow([new TableCell("tiny enormousword")])]);
+        expect(tableContentToString(table, { maxColumnWidth: 5 })).toEqual(
+            "+---------------+\n" +
+            "| tiny          |\n" +
+            "|  enormousword |\n" +
+            "+---------------+"
+        );
+    })
+
+    test("Runs of spaces are kept", () => {
+        const table = new TableContent([new TableRow([new TableCell("one  two three")])]);
+        const text = tableContentToString(table, { maxColumnWidth: 4 });
+        const parsed = tryParseTableFromParsedParts(lookAheadForTableParts(text.split("\n")), "", { maxColumnWidth: 4 });
+        expect(parsed.rows[0].cells[0].content).toEqual("one  two three");
+    })
+
+    test("Wrapping by display width", () => {
+        const table = new TableContent([new TableRow([new TableCell("日本語 の 文章")])]);
+        expect(tableContentToString(table, { maxColumnWidth: 8 })).toEqual(
+            "+----------+\n" +
+            "| 日本語   |\n" +
+            "|  の 文章 |\n" +
+            "+----------+"
+        );
+    })
 })
\ No newline at end of file
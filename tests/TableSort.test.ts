@@ -0,0 +1,67 @@
+import { TableCell, TableContent, TableRow } from "../src/TableData";
+import { compareCellContents, sortRowsByColumn } from "../src/TableSort";
+
+function table(rows: string[][], hasHeaderRow = false) {
+    return new TableContent(rows.map((cells) => new TableRow(cells.map((content) => new TableCell(content)))), { hasHeaderRow });
+}
+
+function column(content: TableContent, col: number) {
+    return content.rows.map((row) => row.cells[col].content);
+}
+
+describe("compareCellContents", () => {
+    test("Numbers are compared by value", () => {
+        const values = ["10", "-2", "3.5", "1,000", "3.14", ".5"];
+        expect(values.sort(compareCellContents)).toEqual(["-2", ".5", "3.14", "3.5", "10", "1,000"]);
+    })
+
+    test("Digits in text are compared as numbers", () => {
+        const values = ["Item 10", "item 2", "Item 1", "apple"];
+        expect(values.sort(compareCellContents)).toEqual(["apple", "Item 1", "item 2", "Item 10"]);
+    })
+
+    test("Case and accents don't matter", () => {
+        expect(compareCellContents("Éclair", "eclair")).toEqual(0);
+    })
+})
+
+describe("sortRowsByColumn", () => {
+    const glossary = table([
+        ["Term", "Count"],
+        ["banana", "12"],
+        ["Apple", "3"],
+        ["", "7"],
+        ["cherry", "100"],
+    ], true);
+
+    test("Sorts ascending with the header row kept on top", () => {
+        const sorted = sortRowsByColumn(glossary, 0);
+        expect(column(sorted, 0)).toEqual(["Term", "Apple", "banana", "cherry", ""]);
+        expect(column(sorted, 1)).toEqual(["Count", "3", "12", "100", "7"]);
+        expect(sorted.hasHeaderRow).toBe(true);
+    })
+
+    test("Sorts descending with empty cells still last", () => {
+        expect(column(sortRowsByColumn(glossary, 0, true), 0)).toEqual(["Term", "cherry", "banana", "Apple", ""]);
+        expect(column(sortRowsByColumn(glossary, 1, true), 1)).toEqual(["Count", "100", "12", "7", "3"]);
+    })
+
+    test("Tables without a header row sort all rows", () => {
+        expect(column(sortRowsByColumn(table([["b"], ["a"]]), 0), 0)).toEqual(["a", "b"]);
+    })
+
+    test("Equal cells keep their order", () => {
+        const sorted = sortRowsByColumn(table([["x", "1"], ["x", "2"], ["a", "3"]]), 0);
+        expect(column(sorted, 1)).toEqual(["3", "1", "2"]);
+    })
+
+    test("Keeps cells merged across columns, but not across rows", () => {
+        const merged = table([["b", "1"], ["a", "2"]]).mergeRight(0, 0);
+        const sorted = sortRowsByColumn(merged, 0);
+        expect(sorted.getCell(1, 0)).toEqual(new TableCell("b\n1", 1, 2));
+        expect(sorted.getCell(1, 1).isCovered).toBe(true);
+
+        expect(() => sortRowsByColumn(table([["b"], ["a"]]).mergeDown(0, 0), 0)).toThrow();
+        expect(() => sortRowsByColumn(glossary, 2)).toThrow();
+    })
+})
@@ -0,0 +1,74 @@
+import { diffLines, TextChange } from "../src/TextDiff";
+
+function applyChanges(text: string, changes: TextChange[]): string {
+    for (const change of changes.slice().reverse()) {
+        text = text.substring(0, change.from) + change.insert + text.substring(change.to);
+    }
+
+    return text;
+}
+
+function expectDiffWorks(oldText: string, newText: string) {
+    const changes = diffLines(oldText, newText);
+    expect(applyChanges(oldText, changes)).toEqual(newText);
+
+    // Changes must be ordered and not overlap.
+    for (let i = 1; i < changes.length; i++) {
+        expect(changes[i].from).toBeGreaterThanOrEqual(changes[i - 1].to);
+    }
+
+    return changes;
+}
+
+describe("diffLines", () => {
+    test("Equal texts have no changes", () => {
+        expect(diffLines("a\nb", "a\nb")).toEqual([]);
+    })
+
+    test("Only the changed line is replaced", () => {
+        const changes = expectDiffWorks("+---+\n| a |\n| b |\n+---+", "+---+\n| a |\n| c |\n+---+");
+        expect(changes).toEqual([{ from: 12, to: 18, insert: "| c |\n" }]);
+    })
+
+    test("Changed lines far apart are separate changes", () => {
+        const changes = expectDiffWorks("a\nb\nc\nd\ne", "A\nb\nc\nd\nE");
+        expect(changes).toEqual([
+            { from: 0, to: 2, insert: "A\n" },
+            { from: 8, to: 9, insert: "E" },
+        ]);
+    })
+
+    test("Inserting lines doesn't touch the others", () => {
+        const changes = expectDiffWorks("a\nc", "a\nb\nc");
+        expect(changes).toEqual([{ from: 2, to: 2, insert: "b\n" }]);
+    })
+
+    test("Lines can be added and removed at the end", () => {
+        expect(expectDiffWorks("a", "a\nb")).toEqual([{ from: 1, to: 1, insert: "\nb" }]);
+        expect(expectDiffWorks("a\nb\nc", "a\nb")).toEqual([{ from: 3, to: 5, insert: "" }]);
+    })
+
+    test("Lines can be added and removed at the start", () => {
+        expect(expectDiffWorks("b\nc", "a\nb\nc")).toEqual([{ from: 0, to: 0, insert: "a\n" }]);
+        expect(expectDiffWorks("a\nb\nc", "b\nc")).toEqual([{ from: 0, to: 2, insert: "" }]);
+    })
+
+    test("Works for empty texts and repeated lines", () => {
+        expectDiffWorks("", "x");
+        expectDiffWorks("x", "");
+        expectDiffWorks("a\na", "a");
+        expectDiffWorks("a\nb\na\nb", "b\na\nb\na");
+        expectDiffWorks("a\n\nb\n", "\na\nb");
+    })
+
+    test("Moving a line only touches the moved line", () => {
+        const changes = expectDiffWorks("1\n2\n3\n4\n5", "1\n3\n4\n2\n5");
+        expect(changes.map((c) => c.insert).join("")).toEqual("2\n");
+    })
+
+    test("Widening a table replaces all of its lines", () => {
+        const oldTable = "+---+\n| a |\n+---+";
+        const newTable = "+----+\n| ab |\n+----+";
+        expect(expectDiffWorks(oldTable, newTable)).toEqual([{ from: 0, to: oldTable.length, insert: newTable }]);
+    })
+})